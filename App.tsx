@@ -1,20 +1,80 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Loader2, AlertCircle, Wand2, Sparkles } from 'lucide-react';
+import { Loader2, AlertCircle, Wand2, Sparkles, History, RotateCcw, Database, RefreshCw, TriangleAlert } from 'lucide-react';
 import { Header } from './components/Header';
 import { ImageUpload } from './components/ImageUpload';
 import { ToleranceControl } from './components/ToleranceControl';
 import { Results } from './components/Results';
-import { generateTags, generateCaption, fileToBase64, fetchLocalTags, fetchOllamaDescription, fetchOllamaModels, fetchBatchTags } from './services/geminiService';
-import { AppState, InterrogationResult, TaggingSettings, BackendConfig, BatchResult } from './types';
+import { BatchReview } from './components/BatchReview';
+import { ExportPanel } from './components/ExportPanel';
+import { DatasetStats } from './components/DatasetStats';
+import { HistoryPanel } from './components/HistoryPanel';
+import { fileToBase64, fetchLocalTags, fetchOllamaDescription, fetchOllamaModels, DEFAULT_MERGE_POLICY, DEFAULT_VERIFICATION } from './services/geminiService';
+import { DEFAULT_CATEGORY_ORDER, DEFAULT_SCORE_FLOOR, DEFAULT_TAG_RULES, processTags } from './services/tagProcessing';
+import { generateTags, generateCaption, getProvider, DEFAULT_PROVIDER_CONFIG } from './services/providers/registry';
+import { createBatchQueue, BatchQueue } from './services/batchQueue';
+import { hashImage, saveHistoryEntry, updateHistoryResult } from './services/history';
+import { AppState, InterrogationResult, TaggingSettings, BackendConfig, BatchItem, Tag, DatasetExportOptions, HistoryEntry } from './types';
+import { DatasetEntry } from './services/datasetExport';
 import { useTheme } from './hooks/useTheme';
 
+const DEFAULT_SETTINGS: TaggingSettings = {
+  thresholds: {
+    general: 0.7,
+    character: 0.7,
+    copyright: 0.7,
+    artist: 0.7,
+    meta: 0.7,
+    rating: 0.8
+  },
+  topK: 50,
+  maxTags: 0,
+  triggerPhrase: '',
+  scoreFloor: DEFAULT_SCORE_FLOOR,
+  removeUnderscores: false,
+  sortBy: 'score',
+  tagOrder: 'ranked',
+  categoryOrder: DEFAULT_CATEGORY_ORDER,
+  keepTokens: 1,
+  shuffleSeed: 0,
+  minPostCount: 0,
+  pruneImplied: false,
+  embedProfile: 'novelai',
+  embedResize: false,
+  mergePolicy: DEFAULT_MERGE_POLICY,
+  tagRules: DEFAULT_TAG_RULES,
+  verification: DEFAULT_VERIFICATION
+};
+
+// Merges saved settings over the defaults; the old shuffle toggle became the 'shuffle' tag order
+const restoreSettings = (saved: Partial<TaggingSettings> & { randomize?: boolean }): TaggingSettings => {
+  const { randomize, ...rest } = saved;
+  return { ...DEFAULT_SETTINGS, ...(randomize ? { tagOrder: 'shuffle' as const } : {}), ...rest };
+};
+
+const DEFAULT_BACKEND_CONFIG: BackendConfig = {
+  type: 'local_hybrid',
+  ...DEFAULT_PROVIDER_CONFIG,
+  batchConcurrency: 2,
+  batchMaxRetries: 2,
+  batchMaxDegradedRetries: 1,
+  resultCache: true,
+  resultCacheMaxMb: 50
+};
+
+const DEFAULT_EXPORT_OPTIONS: DatasetExportOptions = {
+  layout: 'kohya',
+  captionContent: 'tags',
+  repeats: 10,
+  conceptName: 'concept'
+};
+
 const App: React.FC = () => {
   const { t, i18n } = useTranslation();
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [result, setResult] = useState<InterrogationResult | null>(null);
-  const [batchResults, setBatchResults] = useState<Record<string, BatchResult> | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[] | null>(null);
 
   useEffect(() => {
     document.documentElement.lang = i18n.language;
@@ -24,49 +84,45 @@ const App: React.FC = () => {
     const saved = localStorage.getItem('taggingSettings');
     if (saved) {
       try {
-        return JSON.parse(saved);
+        // Merge over defaults so settings added in newer versions are always present
+        return restoreSettings(JSON.parse(saved));
       } catch (e) {
         console.error("Failed to parse saved settings", e);
       }
     }
-    return {
-      thresholds: {
-        general: 0.7,
-        character: 0.7,
-        copyright: 0.7,
-        artist: 0.7,
-        meta: 0.7,
-        rating: 0.8
-      },
-      topK: 50,
-      maxTags: 0,
-      triggerPhrase: '',
-      randomize: false,
-      removeUnderscores: false
-    };
+    return DEFAULT_SETTINGS;
   });
 
   useEffect(() => {
     localStorage.setItem('taggingSettings', JSON.stringify(settings));
   }, [settings]);
 
+  const [exportOptions, setExportOptions] = useState<DatasetExportOptions>(() => {
+    const saved = localStorage.getItem('datasetExportOptions');
+    if (saved) {
+      try {
+        return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(saved) };
+      } catch (e) {
+        console.error("Failed to parse saved export options", e);
+      }
+    }
+    return DEFAULT_EXPORT_OPTIONS;
+  });
+
+  useEffect(() => {
+    localStorage.setItem('datasetExportOptions', JSON.stringify(exportOptions));
+  }, [exportOptions]);
+
   const [backendConfig, setBackendConfig] = useState<BackendConfig>(() => {
     const saved = localStorage.getItem('backendConfig');
     if (saved) {
       try {
-        return JSON.parse(saved);
+        return { ...DEFAULT_BACKEND_CONFIG, ...JSON.parse(saved) };
       } catch (e) {
         console.error("Failed to parse saved backend config", e);
       }
     }
-    return {
-      type: 'local_hybrid',
-      geminiApiKey: '',
-      ollamaEndpoint: 'https://ollama.gpu.garden',
-      ollamaModel: 'qwen3-vl:30b',
-      taggerEndpoint: 'https://localtagger.gpu.garden/interrogate',
-      enableNaturalLanguage: true
-    };
+    return DEFAULT_BACKEND_CONFIG;
   });
 
   useEffect(() => {
@@ -75,44 +131,77 @@ const App: React.FC = () => {
 
   const [error, setError] = useState<string | null>(null);
   const [isGeneratingCaption, setIsGeneratingCaption] = useState(false);
+  const [captioningIndex, setCaptioningIndex] = useState<number | null>(null);
+  const [isBatchPaused, setIsBatchPaused] = useState(false);
+  // Batch images ticked for bulk tag edits
+  const [checkedFiles, setCheckedFiles] = useState<Set<File>>(new Set());
+  const batchQueueRef = useRef<BatchQueue | null>(null);
+  // Stops the description currently streaming from Ollama (single image or manual caption)
+  const generationStopRef = useRef<AbortController | null>(null);
   const { theme, setTheme } = useTheme();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // Set while showing a result re-opened from history rather than a selected file
+  const [openedHistory, setOpenedHistory] = useState<HistoryEntry | null>(null);
+  // Serializes history writes so an edit never lands before the save it updates
+  const historyWritesRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // History is best-effort: a full or blocked IndexedDB must not fail interrogation
+  const queueHistoryWrite = (write: () => Promise<unknown>) => {
+    historyWritesRef.current = historyWritesRef.current
+      .then(write)
+      .catch(err => console.error("Failed to update history", err));
+  };
+
+  const recordHistory = (file: File, result: InterrogationResult) => {
+    queueHistoryWrite(() => saveHistoryEntry(file, result, backendConfig, settings));
+  };
+
+  // `source` is the image file, or the hash of an entry re-opened from history
+  const syncHistory = (source: File | string, result: InterrogationResult) => {
+    queueHistoryWrite(async () => {
+      const hash = typeof source === 'string' ? source : await hashImage(source);
+      await updateHistoryResult(hash, result);
+    });
+  };
+
+  // Abandons the running batch entirely (new files selected or cleared)
+  const cancelBatch = () => {
+    batchQueueRef.current?.cancel();
+    batchQueueRef.current = null;
+    setIsBatchPaused(false);
+  };
 
   const handleFilesSelect = (files: File[]) => {
+    cancelBatch();
     setSelectedFiles(files);
+    setOpenedHistory(null);
     setAppState(AppState.IDLE);
     setResult(null);
-    setBatchResults(null);
+    setBatchItems(null);
     setError(null);
     setIsGeneratingCaption(false);
   };
 
   const handleClear = () => {
+    cancelBatch();
     setSelectedFiles([]);
+    setOpenedHistory(null);
     setResult(null);
-    setBatchResults(null);
+    setBatchItems(null);
     setAppState(AppState.IDLE);
     setError(null);
     setIsGeneratingCaption(false);
   };
 
+  const provider = getProvider(backendConfig.type);
+  const capabilities = provider.getCapabilities(backendConfig);
+
   const validateBackendConfig = (): boolean => {
-    if (backendConfig.type === 'gemini') {
-      if (!backendConfig.geminiApiKey || backendConfig.geminiApiKey.trim() === '') {
-        setError(t('errors.geminiKeyRequired'));
-        setAppState(AppState.ERROR);
-        return false;
-      }
-    } else if (backendConfig.type === 'local_hybrid') {
-      if (!backendConfig.ollamaEndpoint || backendConfig.ollamaEndpoint.trim() === '') {
-        setError(t('errors.ollamaRequired'));
-        setAppState(AppState.ERROR);
-        return false;
-      }
-      if (!backendConfig.taggerEndpoint || backendConfig.taggerEndpoint.trim() === '') {
-        setError(t('errors.taggerRequired'));
-        setAppState(AppState.ERROR);
-        return false;
-      }
+    const errorKey = provider.validateConfig(backendConfig);
+    if (errorKey) {
+      setError(t(errorKey));
+      setAppState(AppState.ERROR);
+      return false;
     }
     return true;
   };
@@ -124,7 +213,8 @@ const App: React.FC = () => {
     status: ''
   });
 
-    const handleInterrogate = async () => {
+  // `bypassCache` re-runs the backend even when a cached result exists
+  const handleInterrogate = async (bypassCache = false) => {
     if (selectedFiles.length === 0) return;
 
     // Strict validation before starting
@@ -133,13 +223,13 @@ const App: React.FC = () => {
     setAppState(AppState.ANALYZING);
     setLoadingState({ 
       tags: true, 
-      description: backendConfig.type === 'local_hybrid' ? backendConfig.enableNaturalLanguage : false,
+      description: capabilities.describesWhileTagging,
       progress: 0,
       status: t('status.starting')
     });
     setError(null);
     setResult({ tags: [], naturalDescription: undefined }); // Reset result
-    setBatchResults(null);
+    setBatchItems(null);
 
     try {
       if (selectedFiles.length === 1) {
@@ -155,27 +245,80 @@ const App: React.FC = () => {
           i18n.language,
           (status, progress) => {
             setLoadingState(prev => ({ ...prev, status, progress }));
+          },
+          {
+            stopSignal: startGeneration(),
+            onDescription: (partial) => setResult(prev => prev ? { ...prev, naturalDescription: partial } : prev),
+            bypassCache
           }
         );
         
         setResult(result);
         setAppState(AppState.SUCCESS);
+        recordHistory(file, result);
       } else {
-        // Batch Logic
-        setLoadingState(prev => ({ ...prev, status: t('results.analyzing'), progress: 50 }));
-        const results = await fetchBatchTags(selectedFiles, backendConfig, settings);
-        setBatchResults(results);
-        setAppState(AppState.SUCCESS);
+        // Batch Logic: every image goes through generateTags via a client-side job queue
+        const files = selectedFiles;
+        let finishedCount = 0;
+        let failedCount = 0;
+        setBatchItems(files.map(file => ({ file, result: null, status: 'pending', progress: 0, attempts: 0 })));
+        setCheckedFiles(new Set());
+        setLoadingState(prev => ({ ...prev, status: t('batch.progress', { done: 0, total: files.length }), progress: 0 }));
+
+        const queue = createBatchQueue(files.length, {
+          concurrency: backendConfig.batchConcurrency,
+          maxRetries: backendConfig.batchMaxRetries,
+          maxDegradedRetries: backendConfig.batchMaxDegradedRetries,
+          run: async (index, signal, onProgress) => {
+            const file = files[index];
+            const base64 = await fileToBase64(file);
+            const result = await generateTags(base64, file.type, backendConfig, settings, i18n.language, onProgress, { signal, bypassCache });
+            recordHistory(file, result);
+            return result;
+          },
+          onItemUpdate: (index, update) => {
+            updateBatchItem(index, item => ({ ...item, ...update }));
+            if (update.status === 'done' || update.status === 'error' || update.status === 'cancelled') {
+              finishedCount++;
+              if (update.status !== 'done') failedCount++;
+              setLoadingState(prev => ({
+                ...prev,
+                status: t('batch.progress', { done: finishedCount, total: files.length }),
+                progress: (finishedCount / files.length) * 100
+              }));
+            }
+          }
+        });
+
+        batchQueueRef.current = queue;
+        setIsBatchPaused(false);
+        await queue.start();
+
+        // Another run (or a clear) may have replaced this queue meanwhile
+        if (batchQueueRef.current !== queue) return;
+        batchQueueRef.current = null;
+        setAppState(failedCount > 0 ? AppState.PARTIAL_SUCCESS : AppState.SUCCESS);
       }
     } catch (err) {
       console.error(err);
       setAppState(AppState.ERROR);
       setError(err instanceof Error ? err.message : t('errors.unknown'));
     } finally {
+      generationStopRef.current = null;
       setLoadingState({ tags: false, description: false, progress: 100, status: t('status.done') });
     }
   };
 
+  const startGeneration = (): AbortSignal => {
+    const controller = new AbortController();
+    generationStopRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleStopGeneration = () => {
+    generationStopRef.current?.abort();
+  };
+
   // Deprecated/Modified: handleGenerateCaption is now part of the main flow for Local Hybrid, 
   // but kept for Gemini or manual re-trigger if needed.
   const handleGenerateCaption = async () => {
@@ -192,20 +335,127 @@ const App: React.FC = () => {
       // OR we can implement a smarter flow here if needed.
       // For now, let's stick to the standard generateCaption which does a fresh look.
       // Ideally, we should pass the tags to ensure parity if that's what the user wants.
-
-      const caption = await generateCaption(base64, file.type, backendConfig, result.tags, i18n.language);
+      // Results keep every tag above the score floor; ground the caption in the ones shown.
+      const caption = await generateCaption(base64, file.type, backendConfig, processTags(result.tags, settings), i18n.language, {
+        stopSignal: startGeneration(),
+        onDescription: (partial) => setResult(prev => prev ? { ...prev, naturalDescription: partial } : prev)
+      });
       setResult(prev => prev ? { ...prev, naturalDescription: caption } : null);
+      syncHistory(file, { ...result, naturalDescription: caption });
     } catch (err) {
       console.error(err);
       setError(err instanceof Error ? err.message : t('errors.unknown'));
     } finally {
+      generationStopRef.current = null;
       setIsGeneratingCaption(false);
     }
   };
 
+  const handleTagsChange = (tags: Tag[]) => {
+    setResult(prev => prev ? { ...prev, tags } : null);
+    const source = openedHistory ? openedHistory.hash : selectedFiles[0];
+    if (result && source) syncHistory(source, { ...result, tags });
+  };
+
+  const handleOpenHistory = (entry: HistoryEntry) => {
+    cancelBatch();
+    setSelectedFiles([]);
+    setBatchItems(null);
+    setOpenedHistory(entry);
+    setResult(entry.result);
+    setAppState(AppState.SUCCESS);
+    setError(null);
+    setIsGeneratingCaption(false);
+  };
+
+  const updateBatchItem = (index: number, update: (item: BatchItem) => BatchItem) => {
+    setBatchItems(prev => prev ? prev.map((item, i) => i === index ? update(item) : item) : null);
+  };
+
+  const handlePauseBatch = () => {
+    batchQueueRef.current?.pause();
+    setIsBatchPaused(true);
+  };
+
+  const handleResumeBatch = () => {
+    batchQueueRef.current?.resume();
+    setIsBatchPaused(false);
+  };
+
+  // Stops the run but keeps finished items; handleInterrogate settles the final state
+  const handleCancelBatch = () => {
+    batchQueueRef.current?.cancel();
+    setIsBatchPaused(false);
+  };
+
+  const handleBatchTagsChange = (index: number, tags: Tag[]) => {
+    updateBatchItem(index, item => item.result ? { ...item, result: { ...item.result, tags } } : item);
+    const item = batchItems?.[index];
+    if (item?.result) syncHistory(item.file, { ...item.result, tags });
+  };
+
+  // Dataset statistics apply one edit to every finished image
+  const handleBulkEdit = (edit: (tags: Tag[], file: File) => Tag[]) => {
+    batchItems?.forEach((item, index) => {
+      if (!item.result) return;
+      const tags = edit(item.result.tags, item.file);
+      if (tags !== item.result.tags) handleBatchTagsChange(index, tags);
+    });
+  };
+
+  const handleToggleChecked = (file: File) => {
+    setCheckedFiles(prev => {
+      const next = new Set(prev);
+      if (!next.delete(file)) next.add(file);
+      return next;
+    });
+  };
+
+  const handleGenerateBatchCaption = async (index: number) => {
+    const item = batchItems?.[index];
+    if (!item || !item.result) return;
+    if (!validateBackendConfig()) return;
+
+    setCaptioningIndex(index);
+    try {
+      const base64 = await fileToBase64(item.file);
+      const setCaption = (caption: string) => {
+        updateBatchItem(index, prev => prev.result ? { ...prev, result: { ...prev.result, naturalDescription: caption } } : prev);
+      };
+      const caption = await generateCaption(base64, item.file.type, backendConfig, processTags(item.result.tags, settings), i18n.language, {
+        stopSignal: startGeneration(),
+        onDescription: setCaption
+      });
+      setCaption(caption);
+      syncHistory(item.file, { ...item.result, naturalDescription: caption });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : t('errors.unknown'));
+    } finally {
+      generationStopRef.current = null;
+      setCaptioningIndex(null);
+    }
+  };
+
+  // The threshold chart plots whatever is on screen: one result or the whole batch
+  const scoreResults = batchItems
+    ? batchItems.flatMap(item => item.result ? [item.result] : [])
+    : result ? [result] : [];
+  const scoreTags = scoreResults.flatMap(r => r.tags);
+  const scoreFloors = scoreResults.flatMap(r => r.scoreFloor !== undefined ? [r.scoreFloor] : []);
+  const scoreFloor = scoreFloors.length > 0 ? Math.max(...scoreFloors) : undefined;
+
+  // Everything that finished interrogation can go into a training dataset
+  const exportEntries: DatasetEntry[] = batchItems
+    ? batchItems.flatMap(item => item.result ? [{ file: item.file, result: item.result }] : [])
+    : result && result.tags.length > 0 && selectedFiles.length === 1
+      ? [{ file: selectedFiles[0], result }]
+      : [];
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-50 dark:bg-[#0f172a] text-slate-900 dark:text-slate-200 selection:bg-red-500/30 selection:text-red-800 dark:selection:text-red-200 transition-colors duration-300">
-      <Header theme={theme} setTheme={setTheme} backendConfig={backendConfig} />
+      <Header theme={theme} setTheme={setTheme} backendConfig={backendConfig} onOpenHistory={() => setIsHistoryOpen(true)} />
+      <HistoryPanel isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} onOpenEntry={handleOpenHistory} />
 
       <main className="flex-1 max-w-7xl w-full mx-auto p-4 sm:p-6 lg:p-8 gap-8 flex flex-col lg:flex-row lg:items-start">
 
@@ -222,7 +472,7 @@ const App: React.FC = () => {
 
           <div className="space-y-4">
             <button
-              onClick={handleInterrogate}
+              onClick={() => handleInterrogate()}
               disabled={selectedFiles.length === 0 || appState === AppState.ANALYZING}
               className={`
                  w-full py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all shadow-lg
@@ -252,6 +502,8 @@ const App: React.FC = () => {
               backendConfig={backendConfig}
               onSettingsChange={setSettings}
               onBackendChange={setBackendConfig}
+              scoreTags={scoreTags}
+              scoreFloor={scoreFloor}
               disabled={appState === AppState.ANALYZING}
             />
           </div>
@@ -261,15 +513,41 @@ const App: React.FC = () => {
         <div className="flex-1 flex flex-col min-h-[500px] lg:h-auto animate-in fade-in slide-in-from-bottom-4 duration-500">
           <div className="flex items-center gap-3 mb-2">
             <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-100">{t('results.title')}</h2>
-            {backendConfig.type !== 'gemini' && (
+            {provider.badge && (
               <span className="px-2 py-0.5 text-[10px] font-medium rounded bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200 border border-amber-200 dark:border-amber-800/50">
-                EVA
+                {provider.badge}
+              </span>
+            )}
+            {result?.cachedAt && selectedFiles.length === 1 && appState !== AppState.ANALYZING && (
+              <span
+                className="flex items-center gap-1 px-2 py-0.5 text-[10px] font-medium rounded bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-200 border border-sky-200 dark:border-sky-800/50"
+                title={t('results.cachedAt', { date: new Date(result.cachedAt).toLocaleString(i18n.language) })}
+              >
+                <Database className="w-3 h-3" aria-hidden="true" />
+                {t('results.cached')}
+                <button
+                  onClick={() => handleInterrogate(true)}
+                  className="ml-1 hover:text-sky-600 dark:hover:text-sky-100"
+                  title={t('results.rerunUncached')}
+                  aria-label={t('results.rerunUncached')}
+                >
+                  <RefreshCw className="w-3 h-3" aria-hidden="true" />
+                </button>
+              </span>
+            )}
+            {result?.verificationSkipped && selectedFiles.length === 1 && appState !== AppState.ANALYZING && (
+              <span
+                className="flex items-center gap-1 px-2 py-0.5 text-[10px] font-medium rounded bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200 border border-amber-200 dark:border-amber-800/50"
+                title={t('results.verificationSkippedHint')}
+              >
+                <TriangleAlert className="w-3 h-3" aria-hidden="true" />
+                {t('results.verificationSkipped')}
               </span>
             )}
           </div>
 
           <div className="flex-1 bg-white dark:bg-slate-900/30 rounded-2xl border border-slate-200 dark:border-slate-800 p-1 transition-colors duration-300 relative min-h-[500px]">
-            {!result && !batchResults && appState !== AppState.ERROR && (
+            {!result && !batchItems && appState !== AppState.ERROR && (
               <div className="absolute inset-0 m-2 rounded-xl border-2 border-dashed border-slate-200 dark:border-slate-800 flex flex-col items-center justify-center text-slate-400 dark:text-slate-600">
                 <Sparkles className="w-12 h-12 mb-3 opacity-20" />
                 <p className="font-medium opacity-50">{t('results.ready')}</p>
@@ -282,48 +560,106 @@ const App: React.FC = () => {
                 <AlertCircle className="w-12 h-12 mb-4 opacity-50" />
                 <h3 className="text-lg font-bold mb-2">{t('results.failed')}</h3>
                 <p className="text-slate-600 dark:text-slate-500 max-w-md">{error}</p>
-                {backendConfig.type === 'local_hybrid' && (
+                {provider.getTroubleshootingHints && (
                   <div className="mt-4 p-3 bg-slate-100 dark:bg-slate-800/50 rounded text-xs text-left">
                     <p className="font-semibold mb-1">{t('results.troubleshoot')}</p>
                     <ul className="list-disc list-inside opacity-70 space-y-1">
-                      <li>{t('results.troubleshootOllama', { endpoint: backendConfig.ollamaEndpoint })}</li>
-                      <li>{t('results.troubleshootTagger', { endpoint: backendConfig.taggerEndpoint })}</li>
-                      <li>{t('results.troubleshootCors')}</li>
+                      {provider.getTroubleshootingHints(backendConfig).map(hint => (
+                        <li key={hint}>{hint}</li>
+                      ))}
                     </ul>
                   </div>
                 )}
               </div>
             )}
 
-            {result && selectedFiles.length === 1 && (
+            {result && (selectedFiles.length === 1 || openedHistory) && (
+              <div className="h-full p-4 flex flex-col gap-3">
+                {openedHistory && (
+                  <div className="flex items-center gap-3 p-2 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700">
+                    <img src={openedHistory.thumbnail} alt="" className="w-12 h-12 object-cover rounded-lg shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate flex items-center gap-1.5">
+                        <History className="w-3.5 h-3.5 text-red-500 shrink-0" aria-hidden="true" />
+                        {openedHistory.fileName}
+                      </p>
+                      <p className="text-[10px] text-slate-500 truncate">
+                        {t('history.openedFrom', { date: new Date(openedHistory.updatedAt).toLocaleString(i18n.language) })}
+                        {openedHistory.model ? ` · ${openedHistory.model}` : ''}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setSettings(restoreSettings(openedHistory.settings))}
+                      className="text-xs text-slate-500 hover:text-red-500 flex items-center gap-1 px-2 py-1 shrink-0"
+                      title={t('history.restoreSettingsHint')}
+                    >
+                      <RotateCcw className="w-3 h-3" aria-hidden="true" />
+                      {t('history.restoreSettings')}
+                    </button>
+                  </div>
+                )}
+                <div className="flex-1 min-h-0">
+                  <Results
+                    result={result}
+                    settings={settings}
+                    onGenerateCaption={capabilities.caption && !openedHistory ? handleGenerateCaption : undefined}
+                    isGeneratingCaption={isGeneratingCaption}
+                    loadingState={loadingState}
+                    selectedFile={selectedFiles[0] ?? null}
+                    onTagsChange={handleTagsChange}
+                    onStopGeneration={capabilities.streaming ? handleStopGeneration : undefined}
+                  />
+                </div>
+              </div>
+            )}
+
+            {batchItems && (
               <div className="h-full p-4">
-                <Results
-                  result={result}
+                <BatchReview
+                  items={batchItems}
                   settings={settings}
-                  onGenerateCaption={handleGenerateCaption}
-                  isGeneratingCaption={isGeneratingCaption}
+                  onTagsChange={handleBatchTagsChange}
+                  onGenerateCaption={capabilities.caption ? handleGenerateBatchCaption : undefined}
+                  captioningIndex={captioningIndex}
+                  onStopGeneration={capabilities.streaming ? handleStopGeneration : undefined}
                   loadingState={loadingState}
-                  selectedFile={selectedFiles[0]}
+                  checkedFiles={checkedFiles}
+                  onToggleChecked={handleToggleChecked}
+                  queueControls={appState === AppState.ANALYZING ? {
+                    isPaused: isBatchPaused,
+                    onPause: handlePauseBatch,
+                    onResume: handleResumeBatch,
+                    onCancel: handleCancelBatch
+                  } : undefined}
                 />
               </div>
             )}
-
-            {batchResults && (
-              <div className="h-full p-4 overflow-auto">
-                <h3 className="text-lg font-bold mb-4">Batch Results</h3>
-                <div className="space-y-4">
-                  {Object.entries(batchResults).map(([filename, data]: [string, BatchResult]) => (
-                    <div key={filename} className="p-4 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700">
-                      <h4 className="font-semibold mb-2 text-sm text-slate-700 dark:text-slate-300">{filename}</h4>
-                      <div className="bg-white dark:bg-slate-900 p-3 rounded border border-slate-200 dark:border-slate-700 font-mono text-xs break-all">
-                        {data.tag_string}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
           </div>
+
+          {batchItems && exportEntries.length > 0 && (
+            <div className="mt-4">
+              <DatasetStats
+                entries={exportEntries}
+                settings={settings}
+                checkedFiles={checkedFiles}
+                onCheckedFilesChange={setCheckedFiles}
+                onBulkEdit={handleBulkEdit}
+                disabled={appState === AppState.ANALYZING}
+              />
+            </div>
+          )}
+
+          {exportEntries.length > 0 && (
+            <div className="mt-4">
+              <ExportPanel
+                entries={exportEntries}
+                settings={settings}
+                options={exportOptions}
+                onOptionsChange={setExportOptions}
+                disabled={appState === AppState.ANALYZING}
+              />
+            </div>
+          )}
         </div>
       </main>
       
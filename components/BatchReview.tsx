@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronLeft, ChevronRight, Loader2, AlertCircle, CheckCircle2, Clock, RotateCw, Ban, Pause, Play, Square, Database, TriangleAlert } from 'lucide-react';
+import { BatchItem, BatchItemStatus, TaggingSettings, Tag, LoadingState } from '../types';
+import { Results } from './Results';
+
+interface BatchReviewProps {
+  items: BatchItem[];
+  settings: TaggingSettings;
+  onTagsChange: (index: number, tags: Tag[]) => void;
+  onGenerateCaption?: (index: number) => void;
+  captioningIndex: number | null;
+  onStopGeneration?: () => void;
+  loadingState: LoadingState;
+  // Images ticked for bulk tag edits in the dataset statistics
+  checkedFiles?: Set<File>;
+  onToggleChecked?: (file: File) => void;
+  // Present while the queue is running
+  queueControls?: {
+    isPaused: boolean;
+    onPause: () => void;
+    onResume: () => void;
+    onCancel: () => void;
+  };
+}
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+  switch (status) {
+    case 'pending':
+      return <Clock className="w-3 h-3 text-slate-400" />;
+    case 'running':
+      return <Loader2 className="w-3 h-3 text-blue-500 animate-spin" />;
+    case 'retrying':
+      return <RotateCw className="w-3 h-3 text-amber-500 animate-spin" />;
+    case 'done':
+      return <CheckCircle2 className="w-3 h-3 text-green-500" />;
+    case 'error':
+      return <AlertCircle className="w-3 h-3 text-red-500" />;
+    case 'cancelled':
+      return <Ban className="w-3 h-3 text-slate-400" />;
+  }
+};
+
+export const BatchReview: React.FC<BatchReviewProps> = ({
+  items,
+  settings,
+  onTagsChange,
+  onGenerateCaption,
+  captioningIndex,
+  onStopGeneration,
+  loadingState,
+  checkedFiles,
+  onToggleChecked,
+  queueControls
+}) => {
+  const { t, i18n } = useTranslation();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  // One object URL per file; tag edits replace the items array but keep the same File objects
+  const urlCache = useRef(new Map<File, string>());
+  const getThumbnailUrl = (file: File) => {
+    let url = urlCache.current.get(file);
+    if (!url) {
+      url = URL.createObjectURL(file);
+      urlCache.current.set(file, url);
+    }
+    return url;
+  };
+
+  useEffect(() => {
+    // Revoke URLs for files that left the batch
+    const files = new Set(items.map(item => item.file));
+    urlCache.current.forEach((url, file) => {
+      if (!files.has(file)) {
+        URL.revokeObjectURL(url);
+        urlCache.current.delete(file);
+      }
+    });
+  }, [items]);
+
+  useEffect(() => {
+    const cache = urlCache.current;
+    return () => {
+      cache.forEach(url => URL.revokeObjectURL(url));
+      cache.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (selectedIndex >= items.length) setSelectedIndex(0);
+  }, [items.length, selectedIndex]);
+
+  const goTo = (index: number) => {
+    setSelectedIndex((index + items.length) % items.length);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Don't hijack arrow keys while typing (e.g. tag autocomplete)
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (e.key === 'ArrowLeft') goTo(selectedIndex - 1);
+      if (e.key === 'ArrowRight') goTo(selectedIndex + 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedIndex, items.length]);
+
+  const current = items[selectedIndex];
+  const doneCount = items.filter(item => item.status === 'done').length;
+
+  // Each item reports its own progress; finished items render as idle
+  const getItemLoadingState = (item: BatchItem): LoadingState => {
+    const isActive = item.status === 'pending' || item.status === 'running' || item.status === 'retrying';
+    return {
+      tags: isActive,
+      description: isActive && loadingState.description,
+      progress: isActive ? item.progress : 100,
+      status: item.status === 'retrying'
+        ? t('batch.retrying', { attempt: item.attempts + 1 })
+        : item.status === 'pending'
+          ? t('batch.status.pending')
+          : item.statusMessage || ''
+    };
+  };
+
+  return (
+    <div className="flex flex-col h-full gap-4">
+      {/* Thumbnail Grid */}
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+          {t('batch.reviewQueue')}
+          <span className="ml-2 bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-full text-xs font-normal text-slate-500 normal-case">
+            {t('batch.processedCount', { done: doneCount, total: items.length })}
+          </span>
+        </h3>
+        <div className="flex items-center gap-1">
+          {queueControls && (
+            <>
+              <button
+                onClick={queueControls.isPaused ? queueControls.onResume : queueControls.onPause}
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                title={queueControls.isPaused ? t('batch.resume') : t('batch.pause')}
+              >
+                {queueControls.isPaused
+                  ? <Play className="w-3.5 h-3.5" aria-hidden="true" />
+                  : <Pause className="w-3.5 h-3.5" aria-hidden="true" />}
+                {queueControls.isPaused ? t('batch.resume') : t('batch.pause')}
+              </button>
+              <button
+                onClick={queueControls.onCancel}
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors"
+                title={t('batch.cancel')}
+              >
+                <Square className="w-3.5 h-3.5" aria-hidden="true" />
+                {t('batch.cancel')}
+              </button>
+              <div className="w-px h-4 bg-slate-200 dark:bg-slate-700 mx-1" aria-hidden="true" />
+            </>
+          )}
+          <button
+            onClick={() => goTo(selectedIndex - 1)}
+            className="p-1.5 rounded-md text-slate-500 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+            title={t('batch.previous')}
+            aria-label={t('batch.previous')}
+          >
+            <ChevronLeft className="w-4 h-4" aria-hidden="true" />
+          </button>
+          <span className="text-xs font-mono text-slate-500 min-w-[4rem] text-center">
+            {selectedIndex + 1} / {items.length}
+          </span>
+          <button
+            onClick={() => goTo(selectedIndex + 1)}
+            className="p-1.5 rounded-md text-slate-500 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+            title={t('batch.next')}
+            aria-label={t('batch.next')}
+          >
+            <ChevronRight className="w-4 h-4" aria-hidden="true" />
+          </button>
+        </div>
+      </div>
+
+      {queueControls && (
+        <div className="w-full h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden" role="progressbar" aria-valuenow={Math.round(loadingState.progress)} aria-valuemin={0} aria-valuemax={100}>
+          <div
+            className={`h-full transition-all duration-300 ${queueControls.isPaused ? 'bg-amber-500' : 'bg-red-500'}`}
+            style={{ width: `${loadingState.progress}%` }}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-6 sm:grid-cols-8 lg:grid-cols-10 gap-2 max-h-48 overflow-y-auto p-1" role="listbox" aria-label={t('batch.reviewQueue')}>
+        {items.map((item, idx) => (
+          <div key={`${item.file.name}-${idx}`} className="relative group">
+            <button
+              onClick={() => setSelectedIndex(idx)}
+              className={`relative w-full aspect-square rounded-lg overflow-hidden border-2 transition-all ${idx === selectedIndex
+                ? 'border-red-500 ring-2 ring-red-500/30'
+                : 'border-slate-200 dark:border-slate-700 hover:border-red-300 dark:hover:border-red-500/50'
+                }`}
+              title={`${item.file.name} · ${t(`batch.status.${item.status}`)}`}
+              role="option"
+              aria-selected={idx === selectedIndex}
+            >
+              <img
+                src={getThumbnailUrl(item.file)}
+                alt={item.file.name}
+                className={`w-full h-full object-cover ${item.status === 'pending' || item.status === 'cancelled' ? 'opacity-50' : ''}`}
+                loading="lazy"
+              />
+              {item.result?.cachedAt && (
+                <span className="absolute top-0.5 left-0.5 rounded-full bg-white/90 dark:bg-slate-900/90 p-0.5" aria-hidden="true">
+                  <Database className="w-3 h-3 text-sky-500" />
+                </span>
+              )}
+              <span className="absolute bottom-0.5 right-0.5 rounded-full bg-white/90 dark:bg-slate-900/90 p-0.5" aria-hidden="true">
+                <StatusIcon status={item.status} />
+              </span>
+              {(item.status === 'running' || item.status === 'retrying') && (
+                <span className="absolute bottom-0 left-0 h-0.5 bg-blue-500 transition-all" style={{ width: `${item.progress}%` }} aria-hidden="true" />
+              )}
+            </button>
+            {onToggleChecked && item.result && (
+              <input
+                type="checkbox"
+                checked={checkedFiles?.has(item.file) ?? false}
+                onChange={() => onToggleChecked(item.file)}
+                className={`absolute top-1 right-1 w-3.5 h-3.5 accent-red-600 cursor-pointer transition-opacity ${checkedFiles?.has(item.file) ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                aria-label={t('batch.check', { name: item.file.name })}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Current Item */}
+      {current && (
+        <div className="flex-1 flex flex-col lg:flex-row gap-4 min-h-0">
+          <div className="lg:w-56 shrink-0 space-y-2">
+            <img
+              src={getThumbnailUrl(current.file)}
+              alt={current.file.name}
+              className="w-full max-h-72 object-contain rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/30"
+            />
+            <p className="text-xs font-mono text-slate-500 break-all">{current.file.name}</p>
+            <p className="flex items-center gap-1.5 text-xs text-slate-500">
+              <StatusIcon status={current.status} />
+              {t(`batch.status.${current.status}`)}
+              {current.attempts > 1 && (
+                <span className="text-slate-400">· {t('batch.attempts', { count: current.attempts })}</span>
+              )}
+              {current.result?.cachedAt && (
+                <span className="flex items-center gap-1 text-sky-600 dark:text-sky-400" title={t('results.cachedAt', { date: new Date(current.result.cachedAt).toLocaleString(i18n.language) })}>
+                  · <Database className="w-3 h-3" aria-hidden="true" />{t('results.cached')}
+                </span>
+              )}
+              {current.result?.failedSources && (
+                <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400">
+                  · <TriangleAlert className="w-3 h-3" aria-hidden="true" />{t('batch.degraded', { sources: current.result.failedSources.join(', ') })}
+                </span>
+              )}
+              {current.result?.verificationSkipped && (
+                <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400" title={t('results.verificationSkippedHint')}>
+                  · <TriangleAlert className="w-3 h-3" aria-hidden="true" />{t('results.verificationSkipped')}
+                </span>
+              )}
+            </p>
+          </div>
+
+          <div className="flex-1 min-w-0">
+            {current.status === 'error' || current.status === 'cancelled' ? (
+              <div className="h-full flex flex-col items-center justify-center text-red-500 dark:text-red-400 p-8 text-center">
+                {current.status === 'error'
+                  ? <AlertCircle className="w-10 h-10 mb-3 opacity-50" aria-hidden="true" />
+                  : <Ban className="w-10 h-10 mb-3 opacity-50 text-slate-400" aria-hidden="true" />}
+                <p className="text-sm text-slate-600 dark:text-slate-500">
+                  {current.status === 'error' ? current.error : t('batch.status.cancelled')}
+                </p>
+              </div>
+            ) : (
+              <Results
+                key={selectedIndex}
+                result={current.result || { tags: [] }}
+                settings={settings}
+                onGenerateCaption={onGenerateCaption ? () => onGenerateCaption(selectedIndex) : undefined}
+                isGeneratingCaption={captioningIndex === selectedIndex}
+                loadingState={getItemLoadingState(current)}
+                selectedFile={current.file}
+                onTagsChange={(tags) => onTagsChange(selectedIndex, tags)}
+                onStopGeneration={captioningIndex === selectedIndex ? onStopGeneration : undefined}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
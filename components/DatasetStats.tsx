@@ -0,0 +1,320 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BarChart3, ChevronDown, ChevronUp, Search, Trash2, Scissors, CheckSquare, X } from 'lucide-react';
+import { Tag, TagCategory, TaggingSettings } from '../types';
+import { DatasetEntry } from '../services/datasetExport';
+import { processTags } from '../services/tagProcessing';
+import { canonicalizeTagName } from '../services/tagService';
+import { addTag, computeDatasetStats, getCoOccurrences, getRareTags, removeTags, replaceTag } from '../services/datasetStats';
+import { TagInput } from './TagInput';
+
+interface DatasetStatsProps {
+  entries: DatasetEntry[];
+  settings: TaggingSettings;
+  // Images ticked in the review grid
+  checkedFiles: Set<File>;
+  onCheckedFilesChange: (files: Set<File>) => void;
+  // Rewrites the raw tags of every entry; return the same array to leave an image as is
+  onBulkEdit: (edit: (tags: Tag[], file: File) => Tag[]) => void;
+  disabled?: boolean;
+}
+
+const CATEGORY_ORDER: TagCategory[] = ['copyright', 'character', 'artist', 'general', 'meta', 'rating'];
+const TABLE_LIMIT = 200;
+
+const getCategoryColor = (category: TagCategory) => {
+  switch (category) {
+    case 'copyright': return 'text-purple-600 dark:text-purple-400';
+    case 'character': return 'text-green-600 dark:text-green-400';
+    case 'artist': return 'text-amber-600 dark:text-amber-400';
+    case 'meta': return 'text-slate-500 dark:text-slate-400';
+    case 'rating': return 'text-rose-600 dark:text-rose-400';
+    case 'general': default: return 'text-blue-600 dark:text-blue-400';
+  }
+};
+
+const inputClassName = "text-xs px-2 py-1 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500/20 focus:border-red-500 transition-all disabled:opacity-50";
+const actionClassName = "flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const DatasetStats: React.FC<DatasetStatsProps> = ({
+  entries,
+  settings,
+  checkedFiles,
+  onCheckedFilesChange,
+  onBulkEdit,
+  disabled = false
+}) => {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [minCount, setMinCount] = useState(2);
+
+  // Statistics describe the captions as exported, after thresholds and rules
+  const tagLists = useMemo(
+    () => entries.map(entry => processTags(entry.result.tags, settings)),
+    [entries, settings]
+  );
+  const stats = useMemo(() => computeDatasetStats(tagLists), [tagLists]);
+  const coOccurrences = useMemo(
+    () => selectedTag ? getCoOccurrences(tagLists, selectedTag) : [],
+    [tagLists, selectedTag]
+  );
+  const rareTags = useMemo(() => getRareTags(stats, minCount), [stats, minCount]);
+
+  const filteredFrequencies = useMemo(() => {
+    const needle = query.trim().toLowerCase().replace(/\s+/g, '_');
+    return needle ? stats.frequencies.filter(frequency => frequency.name.includes(needle)) : stats.frequencies;
+  }, [stats, query]);
+
+  const selectedFrequency = stats.frequencies.find(frequency => frequency.name === selectedTag);
+  const checkedCount = entries.filter(entry => checkedFiles.has(entry.file)).length;
+
+  const formatShare = (count: number) => `${Math.round((count / Math.max(1, stats.imageCount)) * 100)}%`;
+
+  const handleRemoveSelected = () => {
+    if (!selectedFrequency) return;
+    if (!window.confirm(t('stats.removeConfirm', { tag: selectedFrequency.name, count: selectedFrequency.count }))) return;
+    const names = new Set([selectedFrequency.name]);
+    onBulkEdit(tags => removeTags(tags, names));
+    setSelectedTag(null);
+  };
+
+  const handleReplaceSelected = (rawName: string) => {
+    if (!selectedFrequency) return;
+    const target = canonicalizeTagName(rawName);
+    if (target.name === selectedFrequency.name) return;
+    if (!window.confirm(t('stats.replaceConfirm', { tag: selectedFrequency.name, replacement: target.name, count: selectedFrequency.count }))) return;
+    onBulkEdit(tags => replaceTag(tags, selectedFrequency.name, target));
+    setSelectedTag(target.name);
+  };
+
+  const handleAddToChecked = (rawName: string) => {
+    if (checkedCount === 0) return;
+    const tag = canonicalizeTagName(rawName);
+    onBulkEdit((tags, file) => checkedFiles.has(file) ? addTag(tags, tag) : tags);
+  };
+
+  const handlePrune = () => {
+    if (rareTags.length === 0) return;
+    if (!window.confirm(t('stats.pruneConfirm', { count: rareTags.length, min: minCount }))) return;
+    const names = new Set<string>(rareTags);
+    onBulkEdit(tags => removeTags(tags, names));
+    if (selectedTag && names.has(selectedTag)) setSelectedTag(null);
+  };
+
+  // Ticks every image whose caption has the selected tag, ready for "add to checked"
+  const handleCheckImagesWithTag = () => {
+    if (!selectedTag) return;
+    onCheckedFilesChange(new Set(entries.filter((_, i) => tagLists[i].some(tag => tag.name === selectedTag)).map(entry => entry.file)));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900/30 rounded-xl border border-slate-200 dark:border-slate-800 transition-colors duration-300">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-semibold text-slate-700 dark:text-slate-300"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <BarChart3 className="w-4 h-4" aria-hidden="true" />
+          {t('stats.title')}
+          <span className="bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-full text-xs font-normal text-slate-500">
+            {t('stats.summary', { tags: stats.frequencies.length, count: stats.imageCount })}
+          </span>
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-slate-400" aria-hidden="true" /> : <ChevronDown className="w-4 h-4 text-slate-400" aria-hidden="true" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          {/* Per-category counts */}
+          <div className="flex flex-wrap gap-2">
+            {CATEGORY_ORDER.filter(category => stats.categoryCounts[category]).map(category => (
+              <span
+                key={category}
+                className="px-2 py-1 rounded-md bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 text-[11px]"
+              >
+                <span className={`font-medium ${getCategoryColor(category)}`}>{t(`settings.categories.${category}`)}</span>
+                <span className="ml-1.5 font-mono text-slate-500">
+                  {t('stats.categoryCount', { tags: stats.categoryCounts[category]!.tags, occurrences: stats.categoryCounts[category]!.occurrences })}
+                </span>
+              </span>
+            ))}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            {/* Frequency table */}
+            <div className="space-y-2 min-w-0">
+              <div className="relative">
+                <Search className="w-3.5 h-3.5 text-slate-400 absolute left-2 top-1.5 pointer-events-none" aria-hidden="true" />
+                <input
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className={`${inputClassName} w-full pl-7`}
+                  placeholder={t('stats.searchPlaceholder')}
+                  aria-label={t('stats.search')}
+                />
+              </div>
+              <div className="max-h-72 overflow-y-auto rounded-md border border-slate-100 dark:border-slate-800">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900 text-slate-500">
+                    <tr>
+                      <th className="text-left font-medium px-2 py-1">{t('stats.tag')}</th>
+                      <th className="text-right font-medium px-2 py-1">{t('stats.images')}</th>
+                      <th className="text-right font-medium px-2 py-1">{t('stats.meanScore')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredFrequencies.slice(0, TABLE_LIMIT).map(frequency => (
+                      <tr
+                        key={frequency.name}
+                        onClick={() => setSelectedTag(frequency.name === selectedTag ? null : frequency.name)}
+                        className={`cursor-pointer border-t border-slate-100 dark:border-slate-800 ${frequency.name === selectedTag
+                          ? 'bg-red-50 dark:bg-red-500/10'
+                          : 'hover:bg-slate-50 dark:hover:bg-slate-800/50'
+                          }`}
+                        aria-selected={frequency.name === selectedTag}
+                      >
+                        <td className={`px-2 py-1 font-mono truncate max-w-0 w-full ${getCategoryColor(frequency.category)}`} title={frequency.name}>
+                          {frequency.name}
+                        </td>
+                        <td className="px-2 py-1 text-right font-mono text-slate-600 dark:text-slate-400 whitespace-nowrap">
+                          {frequency.count} <span className="text-slate-400">({formatShare(frequency.count)})</span>
+                        </td>
+                        <td className="px-2 py-1 text-right font-mono text-slate-400">{frequency.meanScore.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {filteredFrequencies.length === 0 && (
+                  <p className="text-xs text-slate-400 text-center py-4">{t('stats.noTags')}</p>
+                )}
+              </div>
+              {filteredFrequencies.length > TABLE_LIMIT && (
+                <p className="text-[10px] text-slate-400">{t('stats.truncated', { shown: TABLE_LIMIT, total: filteredFrequencies.length })}</p>
+              )}
+            </div>
+
+            {/* Selected tag: co-occurrence and edits */}
+            <div className="space-y-2 min-w-0">
+              {selectedFrequency ? (
+                <>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className={`text-sm font-mono font-medium truncate ${getCategoryColor(selectedFrequency.category)}`}>{selectedFrequency.name}</p>
+                    <button
+                      onClick={() => setSelectedTag(null)}
+                      className="p-1 rounded text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+                      aria-label={t('stats.deselect')}
+                    >
+                      <X className="w-3.5 h-3.5" aria-hidden="true" />
+                    </button>
+                  </div>
+                  <p className="text-[11px] text-slate-500">{t('stats.coOccurrence')}</p>
+                  <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+                    {coOccurrences.map(other => (
+                      <li key={other.name} className="flex items-center gap-2 text-xs">
+                        <button
+                          onClick={() => setSelectedTag(other.name)}
+                          className={`flex-1 min-w-0 text-left font-mono truncate hover:underline ${getCategoryColor(other.category)}`}
+                        >
+                          {other.name}
+                        </button>
+                        <span className="w-16 h-1 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden shrink-0" aria-hidden="true">
+                          <span className="block h-full bg-red-500" style={{ width: `${other.ratio * 100}%` }} />
+                        </span>
+                        <span className="w-10 text-right font-mono text-slate-500 shrink-0">{Math.round(other.ratio * 100)}%</span>
+                      </li>
+                    ))}
+                    {coOccurrences.length === 0 && (
+                      <li className="text-xs text-slate-400">{t('stats.noCoOccurrence')}</li>
+                    )}
+                  </ul>
+                  <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-slate-100 dark:border-slate-800">
+                    <button
+                      onClick={handleRemoveSelected}
+                      disabled={disabled}
+                      className={`${actionClassName} text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-500/10 border-red-200 dark:border-red-500/20 hover:bg-red-100 dark:hover:bg-red-500/20`}
+                    >
+                      <Trash2 className="w-3 h-3" aria-hidden="true" />
+                      {t('stats.removeEverywhere')}
+                    </button>
+                    <button
+                      onClick={handleCheckImagesWithTag}
+                      disabled={disabled}
+                      className={`${actionClassName} text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800`}
+                    >
+                      <CheckSquare className="w-3 h-3" aria-hidden="true" />
+                      {t('stats.checkImages')}
+                    </button>
+                    {!disabled && (
+                      <TagInput onSubmit={handleReplaceSelected} placeholder={t('stats.replaceWith')} />
+                    )}
+                  </div>
+                </>
+              ) : (
+                <p className="text-xs text-slate-400 py-4 text-center">{t('stats.selectHint')}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Dataset-wide operations */}
+          <div className="grid gap-3 md:grid-cols-2 pt-3 border-t border-slate-100 dark:border-slate-800">
+            <div className="space-y-1">
+              <span className="text-xs text-slate-500">{t('stats.addToChecked', { count: checkedCount })}</span>
+              <div className="flex flex-wrap items-center gap-2">
+                {!disabled && checkedCount > 0 && (
+                  <TagInput onSubmit={handleAddToChecked} />
+                )}
+                <button
+                  onClick={() => onCheckedFilesChange(new Set(entries.map(entry => entry.file)))}
+                  disabled={disabled}
+                  className="text-[11px] text-slate-500 hover:text-red-500 disabled:opacity-50"
+                >
+                  {t('stats.checkAll')}
+                </button>
+                {checkedCount > 0 && (
+                  <button
+                    onClick={() => onCheckedFilesChange(new Set())}
+                    disabled={disabled}
+                    className="text-[11px] text-slate-500 hover:text-red-500 disabled:opacity-50"
+                  >
+                    {t('stats.uncheckAll')}
+                  </button>
+                )}
+              </div>
+              {checkedCount === 0 && (
+                <p className="text-[10px] text-slate-400">{t('stats.checkHint')}</p>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <label htmlFor="stats-prune-min" className="text-xs text-slate-500">{t('stats.prune')}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="stats-prune-min"
+                  type="number"
+                  min={2}
+                  max={Math.max(2, stats.imageCount)}
+                  value={minCount}
+                  onChange={(e) => setMinCount(Math.max(2, parseInt(e.target.value) || 2))}
+                  disabled={disabled}
+                  className={`${inputClassName} w-16 font-mono`}
+                />
+                <button
+                  onClick={handlePrune}
+                  disabled={disabled || rareTags.length === 0}
+                  className={`${actionClassName} text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-500/10 border-red-200 dark:border-red-500/20 hover:bg-red-100 dark:hover:bg-red-500/20`}
+                >
+                  <Scissors className="w-3 h-3" aria-hidden="true" />
+                  {t('stats.pruneAction', { count: rareTags.length })}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
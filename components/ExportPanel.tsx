@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Archive, Loader2, ChevronDown, ChevronUp, FileJson, FileSpreadsheet, Database } from 'lucide-react';
+import { CaptionContent, DatasetExportOptions, DatasetLayout, MetadataFormat, TaggingSettings } from '../types';
+import { buildDatasetZip, buildMetadataExport, DatasetEntry } from '../services/datasetExport';
+
+interface ExportPanelProps {
+  entries: DatasetEntry[];
+  settings: TaggingSettings;
+  options: DatasetExportOptions;
+  onOptionsChange: (options: DatasetExportOptions) => void;
+  disabled?: boolean;
+}
+
+const LAYOUTS: DatasetLayout[] = ['kohya', 'onetrainer', 'flat'];
+const CAPTION_CONTENTS: CaptionContent[] = ['tags', 'description', 'both'];
+const METADATA_FORMATS: { format: MetadataFormat; icon: React.ReactNode }[] = [
+  { format: 'jsonl', icon: <FileJson className="w-3.5 h-3.5" aria-hidden="true" /> },
+  { format: 'csv', icon: <FileSpreadsheet className="w-3.5 h-3.5" aria-hidden="true" /> },
+  { format: 'huggingface', icon: <Database className="w-3.5 h-3.5" aria-hidden="true" /> },
+];
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const selectClassName = "w-full text-xs px-2 py-1.5 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500/20 focus:border-red-500 transition-all disabled:opacity-50";
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({
+  entries,
+  settings,
+  options,
+  onOptionsChange,
+  disabled = false
+}) => {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  // Which export is being built ('zip' for the training dataset), null when idle
+  const [exporting, setExporting] = useState<'zip' | MetadataFormat | null>(null);
+
+  const usesConceptFolder = options.layout !== 'flat';
+
+  const baseName = options.conceptName.trim() || 'dataset';
+
+  const handleExport = async () => {
+    if (entries.length === 0) return;
+    setExporting('zip');
+    try {
+      const blob = await buildDatasetZip(entries, settings, options);
+      downloadBlob(blob, `${baseName}_${options.layout}.zip`);
+    } catch (error) {
+      console.error("Failed to build dataset zip", error);
+      alert(t('export.failed'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleMetadataExport = async (format: MetadataFormat) => {
+    if (entries.length === 0) return;
+    setExporting(format);
+    try {
+      const { blob, extension } = await buildMetadataExport(format, entries, settings, options);
+      downloadBlob(blob, format === 'huggingface' ? `${baseName}_imagefolder.zip` : `${baseName}_tags.${extension}`);
+    } catch (error) {
+      console.error(`Failed to build ${format} export`, error);
+      alert(t('export.failed'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900/30 rounded-xl border border-slate-200 dark:border-slate-800 transition-colors duration-300">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-semibold text-slate-700 dark:text-slate-300"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <Archive className="w-4 h-4" aria-hidden="true" />
+          {t('export.title')}
+          <span className="bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-full text-xs font-normal text-slate-500">
+            {t('export.imageCount', { count: entries.length })}
+          </span>
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-slate-400" aria-hidden="true" /> : <ChevronDown className="w-4 h-4 text-slate-400" aria-hidden="true" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label htmlFor="export-layout" className="text-xs text-slate-500">{t('export.layout')}</label>
+              <select
+                id="export-layout"
+                value={options.layout}
+                onChange={(e) => onOptionsChange({ ...options, layout: e.target.value as DatasetLayout })}
+                className={selectClassName}
+              >
+                {LAYOUTS.map(layout => (
+                  <option key={layout} value={layout}>{t(`export.layouts.${layout}`)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="export-caption" className="text-xs text-slate-500">{t('export.captionContent')}</label>
+              <select
+                id="export-caption"
+                value={options.captionContent}
+                onChange={(e) => onOptionsChange({ ...options, captionContent: e.target.value as CaptionContent })}
+                className={selectClassName}
+              >
+                {CAPTION_CONTENTS.map(content => (
+                  <option key={content} value={content}>{t(`export.captions.${content}`)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="export-concept" className="text-xs text-slate-500">{t('export.conceptName')}</label>
+              <input
+                id="export-concept"
+                type="text"
+                value={options.conceptName}
+                onChange={(e) => onOptionsChange({ ...options, conceptName: e.target.value })}
+                disabled={!usesConceptFolder}
+                placeholder="my_concept"
+                className={selectClassName}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="export-repeats" className="text-xs text-slate-500">{t('export.repeats')}</label>
+              <input
+                id="export-repeats"
+                type="number"
+                min={1}
+                max={100}
+                value={options.repeats}
+                onChange={(e) => onOptionsChange({ ...options, repeats: Math.max(1, parseInt(e.target.value) || 1) })}
+                disabled={!usesConceptFolder}
+                className={`${selectClassName} font-mono`}
+              />
+            </div>
+          </div>
+
+          {usesConceptFolder && (
+            <p className="text-[11px] font-mono text-slate-400 break-all">
+              {options.layout === 'kohya'
+                ? `img/${Math.max(1, options.repeats)}_${options.conceptName.trim() || 'concept'}/image.png + image.txt`
+                : `${options.conceptName.trim() || 'concept'}/image.png + image.txt, concepts.json`}
+            </p>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={disabled || exporting !== null || entries.length === 0}
+            className="w-full flex items-center justify-center gap-1.5 px-3 py-2 text-xs font-medium text-red-700 dark:text-red-300 hover:text-white bg-red-50 dark:bg-red-500/10 hover:bg-red-600 dark:hover:bg-red-500 rounded-md transition-all border border-red-200 dark:border-red-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {exporting === 'zip' ? <Loader2 className="w-3.5 h-3.5 animate-spin" aria-hidden="true" /> : <Archive className="w-3.5 h-3.5" aria-hidden="true" />}
+            {t('export.download')}
+          </button>
+
+          <div className="space-y-1 pt-2 border-t border-slate-100 dark:border-slate-800">
+            <span className="text-xs text-slate-500">{t('export.metadata')}</span>
+            <div className="grid grid-cols-3 gap-2">
+              {METADATA_FORMATS.map(({ format, icon }) => (
+                <button
+                  key={format}
+                  onClick={() => handleMetadataExport(format)}
+                  disabled={disabled || exporting !== null || entries.length === 0}
+                  className="flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium text-blue-700 dark:text-blue-300 hover:text-white bg-blue-50 dark:bg-blue-500/10 hover:bg-blue-600 dark:hover:bg-blue-500 rounded-md transition-all border border-blue-200 dark:border-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={t(`export.formats.${format}Hint`)}
+                >
+                  {exporting === format ? <Loader2 className="w-3.5 h-3.5 animate-spin" aria-hidden="true" /> : icon}
+                  {t(`export.formats.${format}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
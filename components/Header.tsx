@@ -1,31 +1,26 @@
 import React, { useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Sparkles, HelpCircle } from 'lucide-react';
+import { Sparkles, HelpCircle, History } from 'lucide-react';
 import { ThemeToggle } from './ThemeToggle';
 import { LanguageSelector } from './LanguageSelector';
 import { Theme } from '../hooks/useTheme';
 import { BackendConfig } from '../types';
+import { getProvider } from '../services/providers/registry';
 import { InfoModal } from './InfoModal';
 
 interface HeaderProps {
   theme: Theme;
   setTheme: (theme: Theme) => void;
   backendConfig: BackendConfig;
+  onOpenHistory: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ theme, setTheme, backendConfig }) => {
+export const Header: React.FC<HeaderProps> = ({ theme, setTheme, backendConfig, onOpenHistory }) => {
   const { t } = useTranslation();
   const [isModalOpen, setIsModalOpen] = useState(false);
 
   const modelDisplay = useMemo(() => {
-    if (backendConfig.type === 'gemini') {
-      return "Gemini 3.0 Pro";
-    }
-    if (backendConfig.type === 'local_hybrid') {
-      const model = backendConfig.ollamaModel?.trim();
-      return model && model.length > 0 ? model : t('header.nothingYet');
-    }
-    return t('header.nothingYet');
+    return getProvider(backendConfig.type).getModelLabel(backendConfig) || t('header.nothingYet');
   }, [backendConfig]);
 
   return (
@@ -76,6 +71,14 @@ export const Header: React.FC<HeaderProps> = ({ theme, setTheme, backendConfig }
             <Sparkles className="w-3 h-3 text-red-500 dark:text-red-400" aria-hidden="true" />
             <span className="text-xs text-slate-600 dark:text-slate-400">{t('header.poweredBy', { model: modelDisplay })}</span>
           </div>
+          <button
+            onClick={onOpenHistory}
+            className="p-2 rounded-full bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 transition-colors"
+            title={t('history.title')}
+            aria-label={t('history.title')}
+          >
+            <History className="w-4 h-4" aria-hidden="true" />
+          </button>
           <LanguageSelector />
           <ThemeToggle theme={theme} setTheme={setTheme} />
         </div>
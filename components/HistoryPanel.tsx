@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
+import { X, History, Search, Trash2, FolderOpen, Loader2 } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { listHistory, deleteHistoryEntry, clearHistory, matchesHistoryQuery } from '../services/history';
+import { getProvider } from '../services/providers/registry';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenEntry: (entry: HistoryEntry) => void;
+}
+
+const PREVIEW_TAG_COUNT = 8;
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, onOpenEntry }) => {
+  const { t, i18n } = useTranslation();
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+
+  // Reload on every open; interrogations since the last look are not pushed here
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setEntries(null);
+    setError(null);
+    listHistory()
+      .then(list => {
+        if (!cancelled) setEntries(list);
+      })
+      .catch(err => {
+        console.error("Failed to load history", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : t('errors.unknown'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const filteredEntries = useMemo(
+    () => entries ? entries.filter(entry => matchesHistoryQuery(entry, query)) : [],
+    [entries, query]
+  );
+
+  if (!isOpen) return null;
+
+  const handleDelete = async (hash: string) => {
+    try {
+      await deleteHistoryEntry(hash);
+      setEntries(prev => prev ? prev.filter(entry => entry.hash !== hash) : prev);
+    } catch (err) {
+      console.error("Failed to delete history entry", err);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t('history.clearConfirm'))) return;
+    try {
+      await clearHistory();
+      setEntries([]);
+    } catch (err) {
+      console.error("Failed to clear history", err);
+    }
+  };
+
+  const handleOpen = (entry: HistoryEntry) => {
+    onOpenEntry(entry);
+    onClose();
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-100 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-300"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="history-panel-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col border border-slate-200 dark:border-slate-800 animate-in zoom-in-50 duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-200 dark:border-slate-800 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 id="history-panel-title" className="text-xl font-bold text-slate-900 dark:text-slate-100 flex items-center gap-2">
+              <History className="w-6 h-6 text-red-500" aria-hidden="true" />
+              {t('history.title')}
+            </h2>
+            <div className="flex items-center gap-2">
+              {entries && entries.length > 0 && (
+                <button
+                  onClick={handleClear}
+                  className="text-xs text-slate-500 hover:text-red-500 px-2 py-1 rounded transition-colors"
+                >
+                  {t('history.clear')}
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors"
+                aria-label={t('history.close')}
+              >
+                <X className="w-5 h-5 text-slate-500" aria-hidden="true" />
+              </button>
+            </div>
+          </div>
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-400 absolute left-2.5 top-2.5 pointer-events-none" aria-hidden="true" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full text-sm pl-8 pr-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all"
+              placeholder={t('history.searchPlaceholder')}
+              aria-label={t('history.search')}
+              autoFocus
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {error ? (
+            <p className="text-sm text-red-500 text-center py-8">{t('history.unavailable', { error })}</p>
+          ) : !entries ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-slate-400" aria-label={t('history.loading')} />
+            </div>
+          ) : filteredEntries.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">
+              {entries.length === 0 ? t('history.empty') : t('history.noMatches')}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {filteredEntries.map(entry => {
+                const previewTags = entry.result.tags
+                  .filter(tag => tag.category !== 'rating')
+                  .sort((a, b) => b.score - a.score)
+                  .slice(0, PREVIEW_TAG_COUNT);
+                return (
+                  <li
+                    key={entry.hash}
+                    className="flex gap-3 p-2 rounded-xl border border-slate-200 dark:border-slate-800 hover:border-red-300 dark:hover:border-red-500/50 transition-colors"
+                  >
+                    <img
+                      src={entry.thumbnail}
+                      alt=""
+                      className="w-20 h-20 object-cover rounded-lg bg-slate-100 dark:bg-slate-800 shrink-0"
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <p className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate" title={entry.fileName}>{entry.fileName}</p>
+                        <span className="text-[10px] text-slate-400 shrink-0">
+                          {new Date(entry.updatedAt).toLocaleString(i18n.language)}
+                        </span>
+                      </div>
+                      <p className="text-[10px] text-slate-500 truncate">
+                        {t(getProvider(entry.backend).labelKey)}{entry.model ? ` · ${entry.model}` : ''} · {t('history.tagCount', { count: entry.result.tags.length })}
+                      </p>
+                      <p className="text-xs text-slate-600 dark:text-slate-400 line-clamp-2">
+                        {previewTags.map(tag => tag.name).join(', ')}
+                      </p>
+                      {entry.result.naturalDescription && (
+                        <p className="text-[11px] text-slate-400 italic line-clamp-1">{entry.result.naturalDescription}</p>
+                      )}
+                    </div>
+                    <div className="flex flex-col gap-1 shrink-0">
+                      <button
+                        onClick={() => handleOpen(entry)}
+                        className="p-1.5 rounded-md text-slate-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                        aria-label={t('history.open', { name: entry.fileName })}
+                        title={t('history.open', { name: entry.fileName })}
+                      >
+                        <FolderOpen className="w-4 h-4" aria-hidden="true" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(entry.hash)}
+                        className="p-1.5 rounded-md text-slate-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                        aria-label={t('history.delete', { name: entry.fileName })}
+                        title={t('history.delete', { name: entry.fileName })}
+                      >
+                        <Trash2 className="w-4 h-4" aria-hidden="true" />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
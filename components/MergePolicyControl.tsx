@@ -0,0 +1,143 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Sparkles, TrendingUp } from 'lucide-react';
+import { MergePolicy, TagCategory } from '../types';
+import { DEFAULT_MERGE_POLICY } from '../services/geminiService';
+
+interface MergePolicyControlProps {
+  policy: MergePolicy;
+  onChange: (policy: MergePolicy) => void;
+  categories: { id: TagCategory; label: string; icon: React.ReactNode; color: string }[];
+  disabled?: boolean;
+}
+
+const sliderClassName = "w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3.5 [&::-webkit-slider-thumb]:h-3.5 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-red-600 [&::-webkit-slider-thumb]:rounded-full";
+
+export const MergePolicyControl: React.FC<MergePolicyControlProps> = ({ policy: savedPolicy, onChange, categories, disabled }) => {
+  const { t } = useTranslation();
+  // Settings saved before a field existed lack it
+  const policy = { ...DEFAULT_MERGE_POLICY, ...savedPolicy };
+
+  const toggleAgreement = (category: TagCategory) => {
+    const requireAgreement = policy.requireAgreement.includes(category)
+      ? policy.requireAgreement.filter(c => c !== category)
+      : [...policy.requireAgreement, category];
+    onChange({ ...policy, requireAgreement });
+  };
+
+  const renderSlider = (id: string, label: string, value: string, input: React.InputHTMLAttributes<HTMLInputElement>) => (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span id={id} className="font-medium text-slate-700 dark:text-slate-300">{label}</span>
+        <span className="font-mono text-slate-500 dark:text-slate-400">{value}</span>
+      </div>
+      <input type="range" disabled={disabled} className={sliderClassName} aria-labelledby={id} {...input} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+          {t('settings.merge.title')}
+        </label>
+        <p className="text-[10px] text-slate-400">{t('settings.merge.hint')}</p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Sparkles className={`w-4 h-4 ${policy.includeVlmOnly ? 'text-red-500' : 'text-slate-400'}`} aria-hidden="true" />
+          <span id="include-vlm-only-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.merge.includeVlmOnly')}</span>
+        </div>
+        <button
+          onClick={() => onChange({ ...policy, includeVlmOnly: !policy.includeVlmOnly })}
+          disabled={disabled}
+          className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${policy.includeVlmOnly ? 'bg-red-600' : 'bg-slate-200 dark:bg-slate-700'}`}
+          role="switch"
+          aria-checked={policy.includeVlmOnly}
+          aria-labelledby="include-vlm-only-label"
+        >
+          <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${policy.includeVlmOnly ? 'translate-x-5' : 'translate-x-1'}`} />
+        </button>
+      </div>
+
+      {policy.includeVlmOnly && renderSlider(
+        'vlm-only-min-score-label',
+        t('settings.merge.vlmOnlyMinScore'),
+        policy.vlmOnlyMinScore.toFixed(2),
+        {
+          min: 0.3, max: 1, step: 0.05,
+          value: policy.vlmOnlyMinScore,
+          onChange: (e) => onChange({ ...policy, vlmOnlyMinScore: parseFloat(e.target.value) })
+        }
+      )}
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <TrendingUp className={`w-4 h-4 ${policy.popularityWeighting ? 'text-red-500' : 'text-slate-400'}`} aria-hidden="true" />
+            <span id="popularity-weighting-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.merge.popularityWeighting')}</span>
+          </div>
+          <button
+            onClick={() => onChange({ ...policy, popularityWeighting: !policy.popularityWeighting })}
+            disabled={disabled}
+            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${policy.popularityWeighting ? 'bg-red-600' : 'bg-slate-200 dark:bg-slate-700'}`}
+            role="switch"
+            aria-checked={policy.popularityWeighting}
+            aria-labelledby="popularity-weighting-label"
+            aria-describedby="popularity-weighting-hint"
+          >
+            <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${policy.popularityWeighting ? 'translate-x-5' : 'translate-x-1'}`} />
+          </button>
+        </div>
+        <p id="popularity-weighting-hint" className="text-[10px] text-slate-400">{t('settings.merge.popularityWeightingHint')}</p>
+      </div>
+
+      {renderSlider(
+        'agreement-boost-label',
+        t('settings.merge.agreementBoost'),
+        `+${policy.agreementBoost.toFixed(2)}`,
+        {
+          min: 0, max: 0.3, step: 0.05,
+          value: policy.agreementBoost,
+          onChange: (e) => onChange({ ...policy, agreementBoost: parseFloat(e.target.value) })
+        }
+      )}
+
+      {renderSlider(
+        'dispute-penalty-label',
+        t('settings.merge.disputePenalty'),
+        `-${Math.round(policy.disputePenalty * 100)}%`,
+        {
+          min: 0, max: 0.9, step: 0.1,
+          value: policy.disputePenalty,
+          onChange: (e) => onChange({ ...policy, disputePenalty: parseFloat(e.target.value) })
+        }
+      )}
+
+      <div className="space-y-1.5">
+        <span id="require-agreement-label" className="text-xs font-medium text-slate-700 dark:text-slate-300">{t('settings.merge.requireAgreement')}</span>
+        <div className="flex flex-wrap gap-1.5" role="group" aria-labelledby="require-agreement-label">
+          {categories.filter(cat => cat.id !== 'rating').map(cat => {
+            const isOn = policy.requireAgreement.includes(cat.id);
+            return (
+              <button
+                key={cat.id}
+                onClick={() => toggleAgreement(cat.id)}
+                disabled={disabled}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-medium border transition-all ${isOn
+                    ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-500 text-red-700 dark:text-red-300'
+                    : `bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 ${cat.color}`
+                  }`}
+                aria-pressed={isOn}
+              >
+                {cat.icon}
+                {cat.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
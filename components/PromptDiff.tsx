@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FileSearch, CheckCircle2, MinusCircle, PlusCircle } from 'lucide-react';
+import { EmbeddedMetadata, EmbeddedPromptSource, Tag, TaggingSettings } from '../types';
+import { extractPromptTags } from '../services/metadataReader';
+import { isValidTag } from '../services/tagService';
+import { formatTagName } from '../services/tagProcessing';
+
+interface PromptDiffProps {
+  metadata: EmbeddedMetadata;
+  tags: Tag[]; // Tags as currently shown (after thresholds)
+  settings: TaggingSettings;
+}
+
+const SOURCE_LABELS: Record<EmbeddedPromptSource, string> = {
+  a1111: 'A1111',
+  comfyui: 'ComfyUI',
+  novelai: 'NovelAI',
+};
+
+export const PromptDiff: React.FC<PromptDiffProps> = ({ metadata, tags, settings }) => {
+  const { t } = useTranslation();
+
+  const diff = useMemo(() => {
+    const promptTags = extractPromptTags(metadata.prompt);
+    // Natural-language fragments can never be recovered by a tagger; keep them out of the score
+    const knownPromptTags = promptTags.filter(isValidTag);
+    const otherPromptTokens = promptTags.filter(name => !isValidTag(name));
+
+    const interrogated = new Set(tags.map(tag => tag.name));
+    const promptSet = new Set(promptTags);
+
+    const matched = knownPromptTags.filter(name => interrogated.has(name));
+    const missed = knownPromptTags.filter(name => !interrogated.has(name));
+    const extra = tags.filter(tag => !promptSet.has(tag.name)).map(tag => tag.name);
+
+    return {
+      matched,
+      missed,
+      extra,
+      otherPromptTokens,
+      recall: knownPromptTags.length > 0 ? matched.length / knownPromptTags.length : null,
+      precision: interrogated.size > 0 ? matched.length / interrogated.size : null,
+    };
+  }, [metadata.prompt, tags]);
+
+  const renderGroup = (label: string, names: string[], icon: React.ReactNode, className: string) => {
+    if (names.length === 0) return null;
+    return (
+      <div className="space-y-1.5">
+        <div className="flex items-center gap-1.5 text-xs font-medium text-slate-500">
+          {icon}
+          {label}
+          <span className="font-mono opacity-70">({names.length})</span>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {names.map(name => (
+            <span key={name} className={`px-2 py-0.5 rounded-full text-xs font-mono border ${className}`}>
+              {formatTagName(name, settings)}
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const formatPercent = (value: number | null) => value === null ? '–' : `${Math.round(value * 100)}%`;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider flex items-center gap-2">
+          <FileSearch className="w-4 h-4" aria-hidden="true" />
+          {t('promptDiff.title')}
+          <span className="bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-full text-xs font-normal text-slate-500 normal-case">
+            {SOURCE_LABELS[metadata.source]}
+          </span>
+        </h3>
+        <div className="flex gap-1">
+          <span
+            className="px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-300 text-[10px] font-medium border border-green-200 dark:border-green-500/30"
+            title={t('promptDiff.recallHint')}
+          >
+            {t('promptDiff.recall', { value: formatPercent(diff.recall) })}
+          </span>
+          <span
+            className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300 text-[10px] font-medium border border-blue-200 dark:border-blue-500/30"
+            title={t('promptDiff.precisionHint')}
+          >
+            {t('promptDiff.precision', { value: formatPercent(diff.precision) })}
+          </span>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800/30 rounded-xl border border-slate-200 dark:border-slate-700 p-4 space-y-4 transition-colors duration-300">
+        <details className="group">
+          <summary className="text-xs font-medium text-slate-500 cursor-pointer select-none">{t('promptDiff.originalPrompt')}</summary>
+          <p className="mt-2 text-xs font-mono text-slate-600 dark:text-slate-400 whitespace-pre-wrap wrap-break-word select-all">{metadata.prompt}</p>
+          {metadata.negativePrompt && (
+            <p className="mt-2 text-xs font-mono text-slate-400 dark:text-slate-500 whitespace-pre-wrap wrap-break-word">
+              <span className="font-semibold">{t('promptDiff.negativePrompt')}:</span> {metadata.negativePrompt}
+            </p>
+          )}
+        </details>
+
+        {renderGroup(
+          t('promptDiff.matched'),
+          diff.matched,
+          <CheckCircle2 className="w-3.5 h-3.5 text-green-500" aria-hidden="true" />,
+          'text-green-700 bg-green-50 border-green-200 dark:text-green-300 dark:bg-green-500/20 dark:border-green-500/30'
+        )}
+        {renderGroup(
+          t('promptDiff.missed'),
+          diff.missed,
+          <MinusCircle className="w-3.5 h-3.5 text-amber-500" aria-hidden="true" />,
+          'text-amber-700 bg-amber-50 border-amber-200 dark:text-amber-300 dark:bg-amber-500/20 dark:border-amber-500/30'
+        )}
+        {renderGroup(
+          t('promptDiff.extra'),
+          diff.extra,
+          <PlusCircle className="w-3.5 h-3.5 text-blue-500" aria-hidden="true" />,
+          'text-blue-700 bg-blue-50 border-blue-200 dark:text-blue-300 dark:bg-blue-500/20 dark:border-blue-500/30'
+        )}
+        {renderGroup(
+          t('promptDiff.untaggable'),
+          diff.otherPromptTokens,
+          <FileSearch className="w-3.5 h-3.5 text-slate-400" aria-hidden="true" />,
+          'text-slate-500 bg-slate-50 border-slate-200 border-dashed dark:text-slate-400 dark:bg-slate-800/50 dark:border-slate-700'
+        )}
+      </div>
+    </div>
+  );
+};
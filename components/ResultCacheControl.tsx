@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Database, HardDrive, Trash2 } from 'lucide-react';
+import { BackendConfig } from '../types';
+import { CacheUsage, clearResultCache, getCacheUsage } from '../services/resultCache';
+
+interface ResultCacheControlProps {
+  config: BackendConfig;
+  onChange: (config: BackendConfig) => void;
+  disabled?: boolean;
+}
+
+const formatMegabytes = (bytes: number): string => (bytes / (1024 * 1024)).toFixed(1);
+
+export const ResultCacheControl: React.FC<ResultCacheControlProps> = ({ config, onChange, disabled }) => {
+  const { t } = useTranslation();
+  const [usage, setUsage] = useState<CacheUsage | null>(null);
+
+  const refreshUsage = () => {
+    getCacheUsage()
+      .then(setUsage)
+      .catch(error => {
+        console.warn("Failed to read result cache usage", error);
+        setUsage(null);
+      });
+  };
+
+  // Interrogations fill the cache while this is hidden; re-count when it is shown or a run ends
+  useEffect(() => {
+    if (!disabled) refreshUsage();
+  }, [disabled]);
+
+  const handleClear = async () => {
+    try {
+      await clearResultCache();
+    } catch (error) {
+      console.error("Failed to clear result cache", error);
+    }
+    refreshUsage();
+  };
+
+  return (
+    <div className="space-y-3 pt-2 border-t border-slate-100 dark:border-slate-800">
+      <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{t('settings.cache.title')}</label>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Database className={`w-4 h-4 ${config.resultCache ? 'text-red-500' : 'text-slate-400'}`} aria-hidden="true" />
+          <span id="result-cache-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.cache.enabled')}</span>
+        </div>
+        <button
+          onClick={() => onChange({ ...config, resultCache: !config.resultCache })}
+          disabled={disabled}
+          className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${config.resultCache ? 'bg-red-600' : 'bg-slate-200 dark:bg-slate-700'}`}
+          role="switch"
+          aria-checked={config.resultCache}
+          aria-labelledby="result-cache-label"
+        >
+          <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${config.resultCache ? 'translate-x-5' : 'translate-x-1'}`} />
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-400">{t('settings.cache.hint')}</p>
+
+      {config.resultCache && (
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <HardDrive className="w-4 h-4 text-slate-400" aria-hidden="true" />
+            <span id="result-cache-size-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.cache.maxSize')}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              min="10" max="500" step="10"
+              value={config.resultCacheMaxMb}
+              onChange={(e) => onChange({ ...config, resultCacheMaxMb: parseInt(e.target.value) })}
+              disabled={disabled}
+              className="w-24 h-1 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:bg-red-600 [&::-webkit-slider-thumb]:rounded-full"
+              aria-labelledby="result-cache-size-label"
+            />
+            <span className="w-12 text-right text-xs font-mono text-slate-600 dark:text-slate-400">{config.resultCacheMaxMb} MB</span>
+          </div>
+        </div>
+      )}
+
+      {usage && (
+        <div className="flex items-center justify-between text-[10px] text-slate-500">
+          <span>{t('settings.cache.usage', { count: usage.entries, size: formatMegabytes(usage.bytes) })}</span>
+          {usage.entries > 0 && (
+            <button
+              onClick={handleClear}
+              disabled={disabled}
+              className="flex items-center gap-1 text-slate-400 hover:text-red-500 disabled:opacity-50"
+            >
+              <Trash2 className="w-3 h-3" aria-hidden="true" />
+              {t('settings.cache.clear')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
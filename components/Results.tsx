@@ -1,17 +1,24 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { createPortal } from 'react-dom';
-import { Copy, Check, Hash, FileText, Tag as TagIcon, Sparkles, Loader2, User, Palette, Layers, Cpu, Shield, Globe, Download } from 'lucide-react';
-import { InterrogationResult, TaggingSettings, Tag, TagCategory, LoadingState } from '../types';
-import { embedPngMetadata } from '../services/pngMetadata';
+import { Copy, Check, Hash, FileText, Tag as TagIcon, Sparkles, Loader2, User, Palette, Layers, Cpu, Shield, Globe, Download, ArrowRightLeft, X, Pencil, Square, ScanLine, CheckCheck, TriangleAlert } from 'lucide-react';
+import { InterrogationResult, TaggingSettings, Tag, TagCategory, LoadingState, EmbeddedMetadata } from '../types';
+import { embedImageMetadata, EMBED_PROFILE_LABELS } from '../services/pngMetadata';
+import { getPostCount, formatPostCount, canonicalizeTagName, getCategory } from '../services/tagService';
+import { processTags, formatTagName, formatTagString, withTriggerPhrase } from '../services/tagProcessing';
+import { readImageMetadata } from '../services/metadataReader';
+import { TagInput } from './TagInput';
+import { PromptDiff } from './PromptDiff';
 
 interface ResultsProps {
   result: InterrogationResult;
   settings: TaggingSettings;
-  onGenerateCaption: () => void; // Kept for backward compatibility or manual re-trigger
+  onGenerateCaption?: () => void; // Omitted when the backend cannot write descriptions
   isGeneratingCaption: boolean;
   loadingState: LoadingState;
   selectedFile: File | null;
+  onTagsChange?: (tags: Tag[]) => void; // Enables inline add / remove / rename
+  onStopGeneration?: () => void; // Ends a streaming description early, keeping the partial text
 }
 
 export const Results: React.FC<ResultsProps> = ({
@@ -20,50 +27,96 @@ export const Results: React.FC<ResultsProps> = ({
   onGenerateCaption,
   isGeneratingCaption,
   loadingState,
-  selectedFile
+  selectedFile,
+  onTagsChange,
+  onStopGeneration
 }) => {
   const { t } = useTranslation();
   const [copiedTags, setCopiedTags] = useState(false);
   const [copiedNatural, setCopiedNatural] = useState(false);
   const [isEmbedding, setIsEmbedding] = useState(false);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [embeddedMetadata, setEmbeddedMetadata] = useState<EmbeddedMetadata | null>(null);
+
+  // Generated images often carry their original prompt; read it to compare against the tagger
+  useEffect(() => {
+    setEmbeddedMetadata(null);
+    if (!selectedFile) return;
+
+    let cancelled = false;
+    readImageMetadata(selectedFile)
+      .then(metadata => {
+        if (!cancelled) setEmbeddedMetadata(metadata);
+      })
+      .catch(error => console.warn("Failed to read embedded metadata", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile]);
 
   const showToast = (message: string) => {
     setToastMessage(message);
     setTimeout(() => setToastMessage(null), 2000);
   };
 
-  const processedTags = useMemo(() => {
-    // 1. Filter by Category Thresholds
-    let tags = result.tags.filter(tag => {
-      const threshold = settings.thresholds[tag.category] || 0.5;
-      return tag.score >= threshold;
-    });
-
-    // 2. Sort by Score (Descending)
-    tags.sort((a, b) => b.score - a.score);
-
-    // 3. Apply Top K
-    tags = tags.slice(0, settings.topK);
-
-    // 4. Randomize
-    if (settings.randomize) {
-      for (let i = tags.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [tags[i], tags[j]] = [tags[j], tags[i]];
-      }
+  const processedTags = useMemo(() => processTags(result.tags, settings), [result.tags, settings]);
+
+  const handleAddTag = (rawName: string) => {
+    if (!onTagsChange) return;
+    const { name, aliasOf } = canonicalizeTagName(rawName);
+    const existing = result.tags.find(tag => tag.name === name);
+
+    if (existing) {
+      // Already known (possibly hidden by thresholds): pin it as manual
+      onTagsChange(result.tags.map(tag => tag.name === name ? { ...tag, source: 'manual' } : tag));
+    } else {
+      onTagsChange([...result.tags, { name, aliasOf, score: 1, category: getCategory(name), source: 'manual' }]);
     }
+  };
+
+  const handleRemoveTag = (name: string) => {
+    onTagsChange?.(result.tags.filter(tag => tag.name !== name));
+  };
 
-    return tags;
-  }, [result.tags, settings]);
+  const handleRenameTag = (oldName: string, rawName: string) => {
+    setEditingTag(null);
+    if (!onTagsChange) return;
+    const { name, aliasOf } = canonicalizeTagName(rawName);
+    if (name === oldName) return;
 
-  const formatTag = (name: string) => {
-    return settings.removeUnderscores ? name.replace(/_/g, ' ') : name;
+    const original = result.tags.find(tag => tag.name === oldName);
+    const remaining = result.tags.filter(tag => tag.name !== oldName && tag.name !== name);
+    onTagsChange([
+      ...remaining,
+      { name, aliasOf, score: original?.score ?? 1, category: getCategory(name), source: 'manual' }
+    ]);
   };
 
-  const tagString = useMemo(() => {
-    return processedTags.map(t => formatTag(t.name)).join(', ');
-  }, [processedTags, settings.removeUnderscores]);
+  const formatTag = (name: string) => formatTagName(name, settings);
+
+  // Per-tagger scores when an ensemble produced the tags, e.g. "EVA 0.92, SwinV2 0.81"
+  const describeTaggers = (tag: Tag) => tag.taggers
+    ? ` | ${t('results.taggerScores', { scores: tag.taggers.map(({ tagger, score }) => `${tagger} ${score.toFixed(2)}`).join(', ') })}`
+    : '';
+
+  // Where a hybrid tag came from; Gemini tags carry no source and manual tags are labelled in the score pill
+  const renderSourceBadge = (tag: Tag) => {
+    const className = "w-3 h-3 opacity-60 ml-0.5 shrink-0";
+    if (tag.disputed) return <TriangleAlert className={`${className} text-amber-600 dark:text-amber-400 opacity-100`} aria-hidden="true" />;
+    switch (tag.source) {
+      case 'local': return <ScanLine className={className} aria-hidden="true" />;
+      case 'both': return <CheckCheck className={className} aria-hidden="true" />;
+      case 'ollama': return <Sparkles className={className} aria-hidden="true" />;
+      default: return null;
+    }
+  };
+
+  const describeSource = (tag: Tag) =>
+    `${t(`results.sources.${tag.source || 'local'}`)}${tag.disputed ? ` (${t('results.disputed')})` : ''}`;
+
+  // Copied, shown and embedded with the trigger phrase in front, like the dataset export
+  const tagString = useMemo(() => withTriggerPhrase(formatTagString(processedTags, settings), settings), [processedTags, settings]);
 
   const handleCopyTags = () => {
     navigator.clipboard.writeText(tagString);
@@ -81,15 +134,21 @@ export const Results: React.FC<ResultsProps> = ({
     }
   };
 
-  const handleDownloadNai = async (content: string, suffix: string) => {
+  const handleDownloadEmbedded = async () => {
     if (!selectedFile) return;
     setIsEmbedding(true);
     try {
-      const blob = await embedPngMetadata(selectedFile, content);
+      const blob = await embedImageMetadata(selectedFile, {
+        prompt: tagString,
+        description: result.naturalDescription,
+        tags: processedTags.map(tag => formatTag(tag.name)),
+      }, settings.embedProfile, { resizeTo1MP: settings.embedResize });
+      // The original format is kept unless the image had to be converted to PNG
+      const extension = blob.type === 'image/jpeg' ? 'jpg' : blob.type === 'image/webp' ? 'webp' : 'png';
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = selectedFile.name.replace(/\.[^/.]+$/, "") + suffix;
+      a.download = `${selectedFile.name.replace(/\.[^/.]+$/, "")}_${settings.embedProfile}_tags.${extension}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -124,6 +183,9 @@ export const Results: React.FC<ResultsProps> = ({
     }
   };
 
+  // Ollama streams the description in token by token while either of these is set
+  const isStreamingDescription = isGeneratingCaption || loadingState.description;
+
   // Data Fusion: Highlight tags in description
   const HighlightedDescription = () => {
     if (!result.naturalDescription) return null;
@@ -169,7 +231,17 @@ export const Results: React.FC<ResultsProps> = ({
             {t('results.naturalDescription')}
           </h3>
           <div className="flex gap-2">
-            {result.naturalDescription && !loadingState.description && (
+            {isStreamingDescription && onStopGeneration && (
+              <button
+                onClick={onStopGeneration}
+                className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-red-600 dark:text-red-300 hover:text-white bg-red-50 dark:bg-red-500/10 hover:bg-red-600 dark:hover:bg-red-500 rounded-md transition-all border border-red-200 dark:border-red-500/20"
+                title={t('results.stopGenerationHint')}
+              >
+                <Square className="w-3 h-3" aria-hidden="true" />
+                {t('results.stopGeneration')}
+              </button>
+            )}
+            {result.naturalDescription && !loadingState.description && !isGeneratingCaption && (
               <button
                 onClick={handleCopyNatural}
                 className="p-1.5 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors"
@@ -183,7 +255,12 @@ export const Results: React.FC<ResultsProps> = ({
         </div>
 
         <div className="min-h-[120px] bg-white dark:bg-slate-800/30 rounded-xl border border-slate-200 dark:border-slate-700 p-6 transition-colors duration-300 relative">
-          {isGeneratingCaption || loadingState.description ? (
+          {isStreamingDescription && result.naturalDescription ? (
+            <p className="text-slate-800 dark:text-slate-300 leading-relaxed whitespace-pre-wrap font-light text-lg" aria-live="polite">
+              {result.naturalDescription}
+              <span className="inline-block w-2 h-5 ml-0.5 align-text-bottom bg-blue-500 dark:bg-blue-400 animate-pulse" aria-hidden="true"></span>
+            </p>
+          ) : isStreamingDescription ? (
             <div className="flex flex-col items-center justify-center h-full space-y-4 py-4" role="status" aria-live="polite">
               <div className="flex items-center gap-3 text-blue-600 dark:text-blue-400">
                 <Loader2 className="w-6 h-6 animate-spin" aria-hidden="true" />
@@ -207,7 +284,7 @@ export const Results: React.FC<ResultsProps> = ({
           ) : (
             <div className="flex flex-col items-center justify-center h-full text-slate-400 dark:text-slate-500 py-4">
               <p className="text-sm italic mb-2">{t('results.descriptionNotGenerated')}</p>
-              {!loadingState.description && !loadingState.tags && (
+              {onGenerateCaption && !loadingState.description && !loadingState.tags && (
                 <button
                   onClick={onGenerateCaption}
                   disabled={isGeneratingCaption}
@@ -235,9 +312,9 @@ export const Results: React.FC<ResultsProps> = ({
           <div className="flex gap-2">
             {/* Settings Badges */}
             <div className="flex gap-1">
-              {settings.randomize && (
+              {settings.tagOrder && settings.tagOrder !== 'ranked' && (
                 <span className="px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-500/20 text-red-600 dark:text-red-300 text-[10px] font-medium border border-red-200 dark:border-red-500/30">
-                  {t('results.randomized')}
+                  {t(`settings.order.options.${settings.tagOrder}`)}
                 </span>
               )}
               {settings.removeUnderscores && (
@@ -245,6 +322,16 @@ export const Results: React.FC<ResultsProps> = ({
                   {t('results.noUnderscores')}
                 </span>
               )}
+              {settings.pruneImplied && (
+                <span className="px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-500/20 text-red-600 dark:text-red-300 text-[10px] font-medium border border-red-200 dark:border-red-500/30">
+                  {t('results.pruned')}
+                </span>
+              )}
+              {settings.sortBy === 'popularity' && (
+                <span className="px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-500/20 text-red-600 dark:text-red-300 text-[10px] font-medium border border-red-200 dark:border-red-500/30">
+                  {t('results.sortedByPopularity')}
+                </span>
+              )}
             </div>
             <button
               onClick={handleCopyTags}
@@ -256,14 +343,16 @@ export const Results: React.FC<ResultsProps> = ({
               {copiedTags ? t('results.copied') : t('results.copyAll')}
             </button>
             <button
-              onClick={() => handleDownloadNai(tagString, "_nai_tags.png")}
+              onClick={handleDownloadEmbedded}
               disabled={loadingState.tags || processedTags.length === 0 || isEmbedding || !selectedFile}
               className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-blue-700 dark:text-blue-300 hover:text-white bg-blue-50 dark:bg-blue-500/10 hover:bg-blue-600 dark:hover:bg-blue-500 rounded-md transition-all border border-blue-200 dark:border-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
               title="Download with Tags embedded"
               aria-label="Download with Tags embedded"
             >
               {isEmbedding ? <Loader2 className="w-3.5 h-3.5 animate-spin" aria-hidden="true" /> : <Download className="w-3.5 h-3.5" aria-hidden="true" />}
-              {t('results.naiReady')}
+              {settings.embedProfile === 'novelai'
+                ? t('results.naiReady')
+                : t('results.embedReady', { profile: EMBED_PROFILE_LABELS[settings.embedProfile] })}
             </button>
           </div>
         </div>
@@ -293,32 +382,71 @@ export const Results: React.FC<ResultsProps> = ({
             </div>
           ) : (
             <div className="flex flex-wrap gap-2">
-              {processedTags.map((tag, idx) =>
-                <button
-                  key={tag.name}
-                  onClick={() => {
-                    navigator.clipboard.writeText(formatTag(tag.name));
-                    showToast(`Copied: ${formatTag(tag.name)}`);
-                  }}
-                  className={`
-                      inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium cursor-pointer transition-all hover:scale-105 active:scale-95 border
-                      ${getCategoryColor(tag.category)}
-                      ${tag.source === 'ollama' ? 'border-dashed' : ''}
-                      ${tag.source === 'both' ? 'ring-1 ring-offset-1 ring-offset-white dark:ring-offset-slate-900 ring-blue-400/50' : ''}
-                    `}
-                  title={`Score: ${(tag.score * 100).toFixed(0)}% | Source: ${tag.source || 'local'}`}
-                  aria-label={`${formatTag(tag.name)}, Score: ${(tag.score * 100).toFixed(0)}%, Source: ${tag.source || 'local'}`}
-                >
-                  <span className="opacity-50" aria-hidden="true">{getCategoryIcon(tag.category)}</span>
-                  <span className="font-mono font-medium">{formatTag(tag.name)}</span>
-                  <span className="ml-1 text-[10px] font-bold opacity-60 group-hover:opacity-100 bg-black/10 dark:bg-black/20 px-1.5 py-0.5 rounded" aria-hidden="true">
-                    {tag.score.toFixed(2)}
+              {processedTags.map((tag) =>
+                editingTag === tag.name ? (
+                  <TagInput
+                    key={tag.name}
+                    initialValue={tag.name}
+                    placeholder={t('results.renameTag')}
+                    onSubmit={(name) => handleRenameTag(tag.name, name)}
+                    onCancel={() => setEditingTag(null)}
+                    autoFocus
+                  />
+                ) : (
+                  <span key={tag.name} className="group relative inline-flex">
+                    <button
+                      onClick={() => {
+                        navigator.clipboard.writeText(formatTag(tag.name));
+                        showToast(`Copied: ${formatTag(tag.name)}`);
+                      }}
+                      className={`
+                          inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium cursor-pointer transition-all hover:scale-105 active:scale-95 border
+                          ${getCategoryColor(tag.category)}
+                          ${tag.source === 'ollama' || tag.source === 'manual' ? 'border-dashed' : ''}
+                          ${tag.source === 'both' ? 'ring-1 ring-offset-1 ring-offset-white dark:ring-offset-slate-900 ring-blue-400/50' : ''}
+                        `}
+                      title={`Score: ${(tag.score * 100).toFixed(0)}% | Source: ${describeSource(tag)} | ${t('results.postCount', { posts: formatPostCount(getPostCount(tag.name) ?? 0) })}${tag.aliasOf ? ` | ${t('results.aliasRewritten', { alias: tag.aliasOf })}` : ''}${describeTaggers(tag)}`}
+                      aria-label={`${formatTag(tag.name)}, Score: ${(tag.score * 100).toFixed(0)}%, Source: ${describeSource(tag)}${tag.aliasOf ? `, ${t('results.aliasRewritten', { alias: tag.aliasOf })}` : ''}${describeTaggers(tag)}`}
+                    >
+                      <span className="opacity-50" aria-hidden="true">{getCategoryIcon(tag.category)}</span>
+                      <span className="font-mono font-medium">{formatTag(tag.name)}</span>
+                      {tag.aliasOf && <ArrowRightLeft className="w-3 h-3 opacity-60" aria-hidden="true" />}
+                      <span className="ml-1 text-[10px] font-bold opacity-60 group-hover:opacity-100 bg-black/10 dark:bg-black/20 px-1.5 py-0.5 rounded" aria-hidden="true">
+                        {tag.source === 'manual' ? t('results.manualTag') : tag.score.toFixed(2)}
+                      </span>
+                      {renderSourceBadge(tag)}
+                      {result.taggers && tag.taggers && (
+                        <span className="text-[10px] font-mono opacity-60 ml-0.5" aria-hidden="true">
+                          {tag.taggers.length}/{result.taggers.length}
+                        </span>
+                      )}
+                    </button>
+                    {onTagsChange && (
+                      <span className="absolute -top-2 -right-1 hidden group-hover:flex group-focus-within:flex gap-0.5">
+                        <button
+                          onClick={() => setEditingTag(tag.name)}
+                          className="p-0.5 rounded-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-slate-500 hover:text-blue-600 dark:hover:text-blue-400 shadow-sm"
+                          title={t('results.renameTag')}
+                          aria-label={`${t('results.renameTag')}: ${formatTag(tag.name)}`}
+                        >
+                          <Pencil className="w-2.5 h-2.5" aria-hidden="true" />
+                        </button>
+                        <button
+                          onClick={() => handleRemoveTag(tag.name)}
+                          className="p-0.5 rounded-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-slate-500 hover:text-red-600 dark:hover:text-red-400 shadow-sm"
+                          title={t('results.removeTag')}
+                          aria-label={`${t('results.removeTag')}: ${formatTag(tag.name)}`}
+                        >
+                          <X className="w-2.5 h-2.5" aria-hidden="true" />
+                        </button>
+                      </span>
+                    )}
                   </span>
-                  {tag.source === 'ollama' && <span className="text-[10px] opacity-60 ml-0.5" aria-hidden="true">(AI)</span>}
-                </button>
+                )
               )}
+              {onTagsChange && <TagInput onSubmit={handleAddTag} />}
               {processedTags.length === 0 && (
-                <div className="w-full text-center py-12 text-slate-400 dark:text-slate-500">
+                <div className="w-full text-center py-12 text-slate-400 dark:text-slate-500 order-first">
                   <TagIcon className="w-12 h-12 mx-auto mb-3 opacity-20" aria-hidden="true" />
                   <p>No tags found.</p>
                 </div>
@@ -337,6 +465,11 @@ export const Results: React.FC<ResultsProps> = ({
         )}
       </div>
 
+      {/* Section 3: Embedded Prompt vs. Interrogated Tags */}
+      {embeddedMetadata && embeddedMetadata.prompt && !loadingState.tags && (
+        <PromptDiff metadata={embeddedMetadata} tags={processedTags} settings={settings} />
+      )}
+
       {toastMessage && createPortal(
         <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50 animate-in fade-in slide-in-from-bottom-4 duration-200" role="status" aria-live="polite">
           <div className="bg-slate-900/90 dark:bg-white/90 text-white dark:text-slate-900 px-4 py-2 rounded-full shadow-lg backdrop-blur-sm flex items-center gap-2 text-sm font-medium">
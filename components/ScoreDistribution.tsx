@@ -0,0 +1,233 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BarChart3, TrendingDown } from 'lucide-react';
+import { Tag, TagCategory, TaggingSettings } from '../types';
+
+interface ScoreDistributionProps {
+  tags: Tag[]; // Raw result tags; of a whole batch when reviewing a dataset
+  settings: TaggingSettings;
+  categories: { id: TagCategory; label: string; icon: React.ReactNode; color: string }[];
+  // Simple mode edits one threshold for every category but rating
+  isAdvanced: boolean;
+  onThresholdChange: (category: TagCategory | null, value: number) => void;
+  scoreFloor?: number; // Scores below this were never fetched
+  disabled?: boolean;
+}
+
+type ChartMode = 'histogram' | 'curve';
+
+const BIN_COUNT = 20;
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 64;
+// Same range and step as the threshold sliders
+const MAX_THRESHOLD = 0.95;
+const STEP = 0.01;
+
+const clampThreshold = (value: number): number =>
+  Math.min(MAX_THRESHOLD, Math.max(0, Math.round(value / STEP) * STEP));
+
+export const ScoreDistribution: React.FC<ScoreDistributionProps> = ({
+  tags,
+  settings,
+  categories,
+  isAdvanced,
+  onThresholdChange,
+  scoreFloor,
+  disabled
+}) => {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<ChartMode>('histogram');
+  const [selectedCategory, setSelectedCategory] = useState<TagCategory>('general');
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Manual tags carry no real score
+  const scoredTags = useMemo(() => tags.filter(tag => tag.source !== 'manual'), [tags]);
+  const availableCategories = categories.filter(cat => scoredTags.some(tag => tag.category === cat.id));
+
+  const activeCategory = isAdvanced
+    ? (availableCategories.some(cat => cat.id === selectedCategory) ? selectedCategory : availableCategories[0]?.id ?? 'general')
+    : null;
+  const threshold = settings.thresholds[activeCategory ?? 'general'];
+  const color = categories.find(cat => cat.id === (activeCategory ?? 'general'))?.color ?? '';
+
+  const scores = useMemo(
+    () => scoredTags
+      .filter(tag => activeCategory ? tag.category === activeCategory : tag.category !== 'rating')
+      .map(tag => tag.score),
+    [scoredTags, activeCategory]
+  );
+
+  const bins = useMemo(() => {
+    const counts = new Array<number>(BIN_COUNT).fill(0);
+    scores.forEach(score => {
+      counts[Math.min(BIN_COUNT - 1, Math.floor(score * BIN_COUNT))]++;
+    });
+    return counts;
+  }, [scores]);
+
+  // Tags kept at each cutoff, sampled every step: the sorted scores seen sideways
+  const curve = useMemo(() => {
+    const sorted = [...scores].sort((a, b) => a - b);
+    const points: string[] = [];
+    let index = 0;
+    for (let i = 0; i <= 100; i++) {
+      const cutoff = i / 100;
+      while (index < sorted.length && sorted[index] < cutoff) index++;
+      const kept = sorted.length - index;
+      const y = CHART_HEIGHT - (sorted.length ? (kept / sorted.length) * CHART_HEIGHT : 0);
+      points.push(`${(cutoff * CHART_WIDTH).toFixed(1)},${y.toFixed(1)}`);
+    }
+    return points.join(' ');
+  }, [scores]);
+
+  if (scoredTags.length === 0) return null;
+
+  const keptCount = scores.filter(score => score >= threshold).length;
+  const maxBin = Math.max(1, ...bins);
+  const binWidth = CHART_WIDTH / BIN_COUNT;
+  const thresholdX = threshold * CHART_WIDTH;
+
+  const setThreshold = (value: number) => onThresholdChange(activeCategory, clampThreshold(value));
+
+  const thresholdFromPointer = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setThreshold((event.clientX - rect.left) / rect.width);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    thresholdFromPointer(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled || !event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    thresholdFromPointer(event);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const delta = event.key === 'ArrowLeft' || event.key === 'ArrowDown' ? -STEP
+      : event.key === 'ArrowRight' || event.key === 'ArrowUp' ? STEP
+        : 0;
+    if (delta === 0) return;
+    event.preventDefault();
+    setThreshold(threshold + delta * (event.shiftKey ? 5 : 1));
+  };
+
+  const chartLabel = activeCategory
+    ? t('settings.distribution.chartLabel', { category: categories.find(cat => cat.id === activeCategory)?.label })
+    : t('settings.distribution.chartLabelAll');
+
+  return (
+    <div className="space-y-2 rounded-lg bg-slate-50 dark:bg-slate-900/40 border border-slate-200 dark:border-slate-700 p-2">
+      <div className="flex items-center justify-between gap-2">
+        {isAdvanced ? (
+          <div className="flex flex-wrap gap-1" role="group" aria-label={t('settings.distribution.category')}>
+            {availableCategories.map(cat => (
+              <button
+                key={cat.id}
+                onClick={() => setSelectedCategory(cat.id)}
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors ${cat.id === activeCategory
+                  ? `bg-white dark:bg-slate-700 shadow-sm ${cat.color}`
+                  : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                  }`}
+                aria-pressed={cat.id === activeCategory}
+              >
+                {cat.icon}
+                {cat.label}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <span className="text-[10px] font-medium text-slate-500 dark:text-slate-400">{t('settings.distribution.allCategories')}</span>
+        )}
+        <div className="flex shrink-0 rounded bg-slate-200/60 dark:bg-slate-800 p-0.5">
+          <button
+            onClick={() => setMode('histogram')}
+            className={`p-0.5 rounded ${mode === 'histogram' ? 'bg-white dark:bg-slate-600 text-red-600 dark:text-red-300' : 'text-slate-400'}`}
+            title={t('settings.distribution.histogram')}
+            aria-label={t('settings.distribution.histogram')}
+            aria-pressed={mode === 'histogram'}
+          >
+            <BarChart3 className="w-3 h-3" aria-hidden="true" />
+          </button>
+          <button
+            onClick={() => setMode('curve')}
+            className={`p-0.5 rounded ${mode === 'curve' ? 'bg-white dark:bg-slate-600 text-red-600 dark:text-red-300' : 'text-slate-400'}`}
+            title={t('settings.distribution.curve')}
+            aria-label={t('settings.distribution.curve')}
+            aria-pressed={mode === 'curve'}
+          >
+            <TrendingDown className="w-3 h-3" aria-hidden="true" />
+          </button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className={`w-full h-16 touch-none select-none ${color} ${disabled ? 'opacity-50' : 'cursor-ew-resize'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onKeyDown={handleKeyDown}
+        tabIndex={disabled ? -1 : 0}
+        role="slider"
+        aria-label={chartLabel}
+        aria-valuemin={0}
+        aria-valuemax={MAX_THRESHOLD}
+        aria-valuenow={threshold}
+        aria-valuetext={t('settings.distribution.kept', { kept: keptCount, total: scores.length, threshold: threshold.toFixed(2) })}
+        aria-disabled={disabled}
+      >
+        {scoreFloor !== undefined && scoreFloor > 0 && (
+          <rect x={0} y={0} width={scoreFloor * CHART_WIDTH} height={CHART_HEIGHT} className="fill-slate-200 dark:fill-slate-800">
+            <title>{t('settings.distribution.belowFloor', { floor: scoreFloor.toFixed(2) })}</title>
+          </rect>
+        )}
+
+        {mode === 'histogram' ? (
+          bins.map((count, i) => {
+            const height = (count / maxBin) * CHART_HEIGHT;
+            return (
+              <rect
+                key={i}
+                x={i * binWidth + 0.5}
+                y={CHART_HEIGHT - height}
+                width={binWidth - 1}
+                height={height}
+                fill="currentColor"
+                opacity={(i + 1) * binWidth <= thresholdX ? 0.25 : 0.8}
+              />
+            );
+          })
+        ) : (
+          <>
+            <polygon points={`0,${CHART_HEIGHT} ${curve} ${CHART_WIDTH},${CHART_HEIGHT}`} fill="currentColor" opacity={0.15} />
+            <polyline points={curve} fill="none" stroke="currentColor" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          </>
+        )}
+
+        <line
+          x1={thresholdX}
+          x2={thresholdX}
+          y1={0}
+          y2={CHART_HEIGHT}
+          className="stroke-red-600 dark:stroke-red-400"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+
+      <div className="flex justify-between text-[10px] font-mono text-slate-500 dark:text-slate-400">
+        <span>0</span>
+        <span className="font-sans">
+          {t('settings.distribution.kept', { kept: keptCount, total: scores.length, threshold: threshold.toFixed(2) })}
+        </span>
+        <span>1</span>
+      </div>
+    </div>
+  );
+};
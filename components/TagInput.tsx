@@ -0,0 +1,154 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus } from 'lucide-react';
+import { TagCategory } from '../types';
+import { searchTags, formatPostCount } from '../services/tagService';
+
+interface TagInputProps {
+  onSubmit: (name: string) => void;
+  onCancel?: () => void;
+  initialValue?: string;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+// searchTags scans the whole database, so wait for a pause in typing and a useful prefix
+const SEARCH_DELAY_MS = 150;
+const MIN_QUERY_LENGTH = 2;
+
+const getSuggestionColor = (category: TagCategory) => {
+  switch (category) {
+    case 'copyright': return 'text-purple-600 dark:text-purple-400';
+    case 'character': return 'text-green-600 dark:text-green-400';
+    case 'artist': return 'text-amber-600 dark:text-amber-400';
+    case 'meta': return 'text-slate-500 dark:text-slate-400';
+    case 'rating': return 'text-rose-600 dark:text-rose-400';
+    case 'general': default: return 'text-blue-600 dark:text-blue-400';
+  }
+};
+
+export const TagInput: React.FC<TagInputProps> = ({
+  onSubmit,
+  onCancel,
+  initialValue = '',
+  placeholder,
+  autoFocus
+}) => {
+  const { t } = useTranslation();
+  const [value, setValue] = useState(initialValue);
+  const [isOpen, setIsOpen] = useState(false);
+  // -1 until the user moves into the suggestions with the arrow keys
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [query, setQuery] = useState(initialValue);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(value), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const suggestions = useMemo(
+    () => query.trim().length >= MIN_QUERY_LENGTH ? searchTags(query, 8) : [],
+    [query]
+  );
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [value]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        onCancel?.();
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onCancel]);
+
+  const submit = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSubmit(trimmed);
+    setValue('');
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(i => Math.min(i + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, -1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      // Enter adds the text as typed unless a suggestion was picked, so custom tags that
+      // prefix a database tag (e.g. 'my_oc') are not swapped for the popular match
+      submit(isOpen && suggestions[activeIndex] ? suggestions[activeIndex].name : value);
+    } else if (e.key === 'Tab' && isOpen && suggestions.length > 0) {
+      e.preventDefault();
+      setValue(suggestions[Math.max(activeIndex, 0)].name);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      onCancel?.();
+    }
+  };
+
+  return (
+    <div className="relative inline-block" ref={containerRef}>
+      <div className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-dashed border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 focus-within:border-red-500 transition-colors">
+        <Plus className="w-3 h-3 text-slate-400" aria-hidden="true" />
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          autoFocus={autoFocus}
+          placeholder={placeholder ?? t('results.addTag')}
+          className="w-32 bg-transparent text-xs font-mono py-0.5 focus:outline-none text-slate-700 dark:text-slate-200 placeholder:text-slate-400"
+          role="combobox"
+          aria-expanded={isOpen && suggestions.length > 0}
+          aria-autocomplete="list"
+          aria-label={placeholder ?? t('results.addTag')}
+        />
+      </div>
+
+      {isOpen && suggestions.length > 0 && (
+        <ul
+          className="absolute left-0 top-full mt-1 w-64 max-h-64 overflow-y-auto bg-white dark:bg-slate-900 rounded-lg shadow-xl border border-slate-200 dark:border-slate-700 py-1 z-50 animate-in fade-in zoom-in-95 duration-100"
+          role="listbox"
+        >
+          {suggestions.map((suggestion, idx) => (
+            <li
+              key={suggestion.name}
+              role="option"
+              aria-selected={idx === activeIndex}
+              onMouseDown={(e) => {
+                // Keep focus in the input until the click resolves
+                e.preventDefault();
+                submit(suggestion.name);
+              }}
+              className={`px-3 py-1.5 text-xs flex items-center justify-between gap-2 cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-800 ${idx === activeIndex ? 'bg-slate-100 dark:bg-slate-800' : ''}`}
+            >
+              <span className="font-mono truncate">
+                <span className={getSuggestionColor(suggestion.category)}>{suggestion.name}</span>
+                {suggestion.matchedAlias && (
+                  <span className="ml-1 text-slate-400">← {suggestion.matchedAlias}</span>
+                )}
+              </span>
+              <span className="text-[10px] font-mono text-slate-400 shrink-0">{formatPostCount(suggestion.count)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
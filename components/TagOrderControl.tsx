@@ -0,0 +1,123 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { ListOrdered, Shuffle, ChevronLeft, ChevronRight, RotateCw, Users } from 'lucide-react';
+import { TagCategory, TaggingSettings, TagOrder, TagOrderGroup } from '../types';
+import { DEFAULT_CATEGORY_ORDER } from '../services/tagProcessing';
+
+interface TagOrderControlProps {
+  settings: TaggingSettings;
+  onSettingsChange: (settings: TaggingSettings) => void;
+  categories: { id: TagCategory; label: string; icon: React.ReactNode; color: string }[];
+  disabled?: boolean;
+}
+
+const TAG_ORDERS: TagOrder[] = ['ranked', 'category', 'keepFirst', 'alphabetical', 'danbooru', 'shuffle'];
+
+const inputClassName = "text-xs px-2 py-1 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500/20 focus:border-red-500 transition-all";
+
+export const TagOrderControl: React.FC<TagOrderControlProps> = ({ settings, onSettingsChange, categories, disabled }) => {
+  const { t } = useTranslation();
+  const tagOrder = settings.tagOrder ?? 'ranked';
+  const categoryOrder = settings.categoryOrder ?? DEFAULT_CATEGORY_ORDER;
+  const usesGroups = tagOrder === 'category' || tagOrder === 'keepFirst';
+  const shuffles = tagOrder === 'shuffle' || tagOrder === 'keepFirst';
+
+  const getGroup = (group: TagOrderGroup) => group === 'count'
+    ? { label: t('settings.order.count'), icon: <Users className="w-3 h-3" />, color: 'text-blue-600 dark:text-blue-400' }
+    : categories.find(cat => cat.id === group) ?? { label: group, icon: null, color: '' };
+
+  const moveGroup = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= categoryOrder.length) return;
+    const next = [...categoryOrder];
+    [next[index], next[target]] = [next[target], next[index]];
+    onSettingsChange({ ...settings, categoryOrder: next });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {shuffles
+            ? <Shuffle className="w-4 h-4 text-red-500" aria-hidden="true" />
+            : <ListOrdered className={`w-4 h-4 ${tagOrder === 'ranked' ? 'text-slate-400' : 'text-red-500'}`} aria-hidden="true" />}
+          <label htmlFor="tag-order" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.order.title')}</label>
+        </div>
+        <select
+          id="tag-order"
+          value={tagOrder}
+          onChange={(e) => onSettingsChange({ ...settings, tagOrder: e.target.value as TagOrder })}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          {TAG_ORDERS.map(order => (
+            <option key={order} value={order}>{t(`settings.order.options.${order}`)}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-[10px] text-slate-400">{t(`settings.order.hints.${tagOrder}`)}</p>
+
+      {usesGroups && (
+        <div className="flex flex-wrap gap-1" role="list" aria-label={t('settings.order.groups')}>
+          {categoryOrder.map((group, index) => {
+            const { label, icon, color } = getGroup(group);
+            return (
+              <span
+                key={group}
+                role="listitem"
+                className={`inline-flex items-center gap-0.5 pl-0.5 pr-1 py-0.5 rounded-md text-[10px] font-medium bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 ${color}`}
+              >
+                <button
+                  onClick={() => moveGroup(index, -1)}
+                  disabled={disabled || index === 0}
+                  className="text-slate-400 hover:text-red-500 disabled:opacity-30"
+                  aria-label={t('settings.order.moveEarlier', { group: label })}
+                >
+                  <ChevronLeft className="w-3 h-3" aria-hidden="true" />
+                </button>
+                {icon}
+                {label}
+                <button
+                  onClick={() => moveGroup(index, 1)}
+                  disabled={disabled || index === categoryOrder.length - 1}
+                  className="text-slate-400 hover:text-red-500 disabled:opacity-30"
+                  aria-label={t('settings.order.moveLater', { group: label })}
+                >
+                  <ChevronRight className="w-3 h-3" aria-hidden="true" />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {tagOrder === 'keepFirst' && (
+        <div className="flex items-center justify-between gap-2">
+          <label htmlFor="keep-tokens" className="text-xs text-slate-600 dark:text-slate-400">{t('settings.order.keepTokens')}</label>
+          <input
+            id="keep-tokens"
+            type="number"
+            min={0}
+            max={50}
+            value={settings.keepTokens ?? 0}
+            onChange={(e) => onSettingsChange({ ...settings, keepTokens: Math.min(50, Math.max(0, parseInt(e.target.value) || 0)) })}
+            disabled={disabled}
+            className={`${inputClassName} w-16 font-mono`}
+          />
+        </div>
+      )}
+
+      {shuffles && (
+        <button
+          onClick={() => onSettingsChange({ ...settings, shuffleSeed: (settings.shuffleSeed ?? 0) + 1 })}
+          disabled={disabled}
+          className="flex items-center gap-1 text-xs text-slate-500 hover:text-red-500 disabled:opacity-50"
+          title={t('settings.order.reshuffleHint')}
+        >
+          <RotateCw className="w-3 h-3" aria-hidden="true" />
+          {t('settings.order.reshuffle')}
+        </button>
+      )}
+    </div>
+  );
+};
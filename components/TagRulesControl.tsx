@@ -0,0 +1,184 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, RotateCcw, ShieldCheck, X } from 'lucide-react';
+import { TagRule, VerificationSettings } from '../types';
+import { DEFAULT_TAG_RULES } from '../services/tagProcessing';
+import { DEFAULT_VERIFICATION } from '../services/geminiService';
+
+interface TagRulesControlProps {
+  rules: TagRule[] | undefined;
+  onRulesChange: (rules: TagRule[]) => void;
+  verification: VerificationSettings | undefined;
+  onVerificationChange: (verification: VerificationSettings) => void;
+  // Only backends with a vision model can verify tags
+  showVerification: boolean;
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full text-sm px-2 py-1.5 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all";
+const sliderClassName = "w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3.5 [&::-webkit-slider-thumb]:h-3.5 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-red-600 [&::-webkit-slider-thumb]:rounded-full";
+
+export const TagRulesControl: React.FC<TagRulesControlProps> = ({
+  rules: savedRules,
+  onRulesChange,
+  verification: savedVerification,
+  onVerificationChange,
+  showVerification,
+  disabled
+}) => {
+  const { t } = useTranslation();
+  // Settings saved before these existed lack them
+  const rules = savedRules ?? DEFAULT_TAG_RULES;
+  const verification = { ...DEFAULT_VERIFICATION, ...savedVerification };
+
+  const updateRule = (index: number, changes: Partial<TagRule>) => {
+    onRulesChange(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const renderSlider = (id: string, label: string, value: string, input: React.InputHTMLAttributes<HTMLInputElement>) => (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span id={id} className="font-medium text-slate-700 dark:text-slate-300">{label}</span>
+        <span className="font-mono text-slate-500 dark:text-slate-400">{value}</span>
+      </div>
+      <input type="range" disabled={disabled} className={sliderClassName} aria-labelledby={id} {...input} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+            {t('settings.rules.title')}
+          </label>
+          <button
+            onClick={() => onRulesChange(DEFAULT_TAG_RULES)}
+            disabled={disabled}
+            className="text-[10px] text-slate-400 hover:text-red-500 flex items-center gap-1"
+            title={t('settings.rules.reset')}
+          >
+            <RotateCcw className="w-3 h-3" aria-hidden="true" />
+            {t('settings.rules.reset')}
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-400">{t('settings.rules.hint')}</p>
+      </div>
+
+      {rules.length > 0 && (
+        <div className="space-y-1.5">
+          <div className="grid grid-cols-[1fr_4.5rem_1.25rem] gap-1.5 text-[10px] text-slate-400">
+            <span>{t('settings.rules.pattern')}</span>
+            <span>{t('settings.rules.minScore')}</span>
+          </div>
+          {rules.map((rule, index) => (
+            <div key={index} className="grid grid-cols-[1fr_4.5rem_1.25rem] gap-1.5">
+              <input
+                type="text"
+                value={rule.pattern}
+                onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                disabled={disabled}
+                className={`${inputClassName} font-mono`}
+                placeholder="*_skin"
+                aria-label={t('settings.rules.pattern')}
+              />
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={rule.minScore}
+                onChange={(e) => updateRule(index, { minScore: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                disabled={disabled}
+                className={`${inputClassName} font-mono`}
+                aria-label={t('settings.rules.minScore')}
+                title={t('settings.rules.minScoreHint')}
+              />
+              <button
+                onClick={() => onRulesChange(rules.filter((_, i) => i !== index))}
+                disabled={disabled}
+                className="text-slate-400 hover:text-red-500 flex items-center justify-center"
+                aria-label={t('settings.rules.remove', { pattern: rule.pattern })}
+                title={t('settings.rules.remove', { pattern: rule.pattern })}
+              >
+                <X className="w-4 h-4" aria-hidden="true" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={() => onRulesChange([...rules, { pattern: '', minScore: 1 }])}
+        disabled={disabled}
+        className="text-[10px] text-blue-500 hover:text-blue-600 flex items-center gap-1"
+      >
+        <Plus className="w-3 h-3" aria-hidden="true" />
+        {t('settings.rules.add')}
+      </button>
+
+      {showVerification && (
+        <>
+          <div className="flex items-center justify-between pt-1">
+            <div className="flex items-center gap-2">
+              <ShieldCheck className={`w-4 h-4 ${verification.enabled ? 'text-red-500' : 'text-slate-400'}`} aria-hidden="true" />
+              <span id="verify-tags-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.verification.enabled')}</span>
+            </div>
+            <button
+              onClick={() => onVerificationChange({ ...verification, enabled: !verification.enabled })}
+              disabled={disabled}
+              className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${verification.enabled ? 'bg-red-600' : 'bg-slate-200 dark:bg-slate-700'}`}
+              role="switch"
+              aria-checked={verification.enabled}
+              aria-labelledby="verify-tags-label"
+            >
+              <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${verification.enabled ? 'translate-x-5' : 'translate-x-1'}`} />
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-400">{t('settings.verification.hint')}</p>
+
+          {verification.enabled && (
+            <div className="space-y-3">
+              {renderSlider(
+                'verify-min-score-label',
+                t('settings.verification.minScore'),
+                verification.minScore.toFixed(2),
+                {
+                  min: 0, max: 0.95, step: 0.05,
+                  value: verification.minScore,
+                  onChange: (e) => {
+                    const minScore = parseFloat(e.target.value);
+                    onVerificationChange({ ...verification, minScore, maxScore: Math.max(verification.maxScore, minScore + 0.05) });
+                  }
+                }
+              )}
+              {renderSlider(
+                'verify-max-score-label',
+                t('settings.verification.maxScore'),
+                verification.maxScore.toFixed(2),
+                {
+                  min: 0.05, max: 1, step: 0.05,
+                  value: verification.maxScore,
+                  onChange: (e) => {
+                    const maxScore = parseFloat(e.target.value);
+                    onVerificationChange({ ...verification, maxScore, minScore: Math.min(verification.minScore, maxScore - 0.05) });
+                  }
+                }
+              )}
+              {renderSlider(
+                'verify-max-questions-label',
+                t('settings.verification.maxQuestions'),
+                String(verification.maxQuestions),
+                {
+                  min: 1, max: 50, step: 1,
+                  value: verification.maxQuestions,
+                  onChange: (e) => onVerificationChange({ ...verification, maxQuestions: parseInt(e.target.value, 10) })
+                }
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Settings2, Shuffle, SortAsc, ChevronDown, ChevronUp, Layers, User, Palette, Cpu, Type, Shield, Server, Globe, Key, RefreshCw, Download } from 'lucide-react';
-import { TaggingSettings, TagCategory, BackendConfig, BackendType } from '../types';
-import { fetchOllamaModels } from '../services/geminiService';
+import { Settings2, ChevronDown, ChevronUp, Layers, User, Palette, Cpu, Type, Shield, Globe, Download, Activity, Loader2, TrendingUp, EyeOff, Scissors, ListOrdered, RotateCw, Shrink, TriangleAlert } from 'lucide-react';
+import { TaggingSettings, TagCategory, BackendConfig, EmbedProfile, ProviderHealth, Tag } from '../types';
+import { BACKEND_PROVIDERS, getProvider } from '../services/providers/registry';
+import { BACKEND_UI } from './backends/registry';
+import { EMBED_PROFILE_LABELS } from '../services/pngMetadata';
+import { MergePolicyControl } from './MergePolicyControl';
+import { TagRulesControl } from './TagRulesControl';
+import { ResultCacheControl } from './ResultCacheControl';
+import { DEFAULT_SCORE_FLOOR } from '../services/tagProcessing';
+import { ScoreDistribution } from './ScoreDistribution';
+import { TagOrderControl } from './TagOrderControl';
 
 interface ToleranceControlProps {
   settings: TaggingSettings;
   backendConfig: BackendConfig;
   onSettingsChange: (settings: TaggingSettings) => void;
   onBackendChange: (config: BackendConfig) => void;
+  // Tags of the current result (or batch) for the score distribution chart
+  scoreTags?: Tag[];
+  scoreFloor?: number;
   disabled?: boolean;
 }
 
@@ -17,13 +28,15 @@ export const ToleranceControl: React.FC<ToleranceControlProps> = ({
   backendConfig,
   onSettingsChange,
   onBackendChange,
+  scoreTags,
+  scoreFloor,
   disabled
 }) => {
   const { t } = useTranslation();
   const [isExpanded, setIsExpanded] = useState(true);
   const [activeTab, setActiveTab] = useState<'tags' | 'backend'>('tags');
-  const [availableModels, setAvailableModels] = useState<string[]>([]);
-  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [health, setHealth] = useState<ProviderHealth | null>(null);
+  const [isCheckingHealth, setIsCheckingHealth] = useState(false);
   const [isAdvanced, setIsAdvanced] = useState(false);
 
   const updateThreshold = (category: TagCategory, value: number) => {
@@ -51,39 +64,26 @@ export const ToleranceControl: React.FC<ToleranceControlProps> = ({
     });
   };
 
-  const handleFetchModels = async () => {
-    if (!backendConfig.ollamaEndpoint) return;
+  const { SettingsPanel, OutputOptions } = BACKEND_UI[backendConfig.type] ?? BACKEND_UI.local_hybrid;
+  // The merge policy only matters when a vision model tags alongside the tagger
+  const capabilities = getProvider(backendConfig.type).getCapabilities(backendConfig);
+  const hasVlmTags = capabilities.describesWhileTagging;
 
-    setIsLoadingModels(true);
+  const handleBackendChange = (config: BackendConfig) => {
+    setHealth(null);
+    onBackendChange(config);
+  };
+
+  const handleHealthCheck = async () => {
+    setIsCheckingHealth(true);
     try {
-      const models = await fetchOllamaModels(backendConfig.ollamaEndpoint);
-      setAvailableModels(models);
-      
-      // Smart selection logic
-      if (models.length > 0 && !models.includes(backendConfig.ollamaModel)) {
-        // 1. Try to find a model that contains the current config name (e.g. 'qwen3-vl' -> 'qwen3-vl:30b')
-        const partialMatch = models.find(m => m.includes(backendConfig.ollamaModel) || backendConfig.ollamaModel.includes(m));
-        
-        if (partialMatch) {
-           onBackendChange({ ...backendConfig, ollamaModel: partialMatch });
-        } else {
-           // 2. Fallback to first available
-           onBackendChange({ ...backendConfig, ollamaModel: models[0] });
-        }
-      }
-    } catch (e) {
-      console.error("Failed to load models", e);
+      setHealth(await getProvider(backendConfig.type).healthCheck(backendConfig));
     } finally {
-      setIsLoadingModels(false);
+      setIsCheckingHealth(false);
     }
   };
 
-  // Fetch models when switching to backend tab or when endpoint changes (debounced ideally, but here on blur/effect)
-  useEffect(() => {
-    if (activeTab === 'backend' && backendConfig.type === 'local_hybrid') {
-      handleFetchModels();
-    }
-  }, [activeTab, backendConfig.type, backendConfig.ollamaEndpoint]);
+  const postCountOptions = [0, 100, 500, 1000, 5000, 10000];
 
   const categories: { id: TagCategory; label: string; icon: React.ReactNode; color: string }[] = [
     { id: 'copyright', label: t('settings.categories.copyright'), icon: <Globe className="w-3 h-3" />, color: 'text-purple-600 dark:text-purple-400' },
@@ -193,18 +193,95 @@ export const ToleranceControl: React.FC<ToleranceControlProps> = ({
 
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
-                    {settings.randomize ? <Shuffle className="w-4 h-4 text-red-500" aria-hidden="true" /> : <SortAsc className="w-4 h-4 text-slate-400" aria-hidden="true" />}
-                    <span id="randomize-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.randomize')}</span>
+                    <TrendingUp className={`w-4 h-4 ${settings.sortBy === 'popularity' ? 'text-red-500' : 'text-slate-400'}`} aria-hidden="true" />
+                    <span id="sort-popularity-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.sortByPopularity')}</span>
                   </div>
                   <button
-                    onClick={() => onSettingsChange({ ...settings, randomize: !settings.randomize })}
+                    onClick={() => onSettingsChange({ ...settings, sortBy: settings.sortBy === 'popularity' ? 'score' : 'popularity' })}
                     disabled={disabled}
-                    className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${settings.randomize ? 'bg-red-600' : 'bg-slate-200 dark:bg-slate-700'}`}
+                    className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${settings.sortBy === 'popularity' ? 'bg-red-600' : 'bg-slate-200 dark:bg-slate-700'}`}
                     role="switch"
-                    aria-checked={settings.randomize}
-                    aria-labelledby="randomize-label"
+                    aria-checked={settings.sortBy === 'popularity'}
+                    aria-labelledby="sort-popularity-label"
                   >
-                    <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${settings.randomize ? 'translate-x-5' : 'translate-x-1'}`} />
+                    <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${settings.sortBy === 'popularity' ? 'translate-x-5' : 'translate-x-1'}`} />
+                  </button>
+                </div>
+
+                <TagOrderControl
+                  settings={settings}
+                  onSettingsChange={onSettingsChange}
+                  categories={categories}
+                  disabled={disabled}
+                />
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Scissors className={`w-4 h-4 ${settings.pruneImplied ? 'text-red-500' : 'text-slate-400'}`} aria-hidden="true" />
+                    <span id="prune-implied-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.pruneImplied')}</span>
+                  </div>
+                  <button
+                    onClick={() => onSettingsChange({ ...settings, pruneImplied: !settings.pruneImplied })}
+                    disabled={disabled}
+                    className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${settings.pruneImplied ? 'bg-red-600' : 'bg-slate-200 dark:bg-slate-700'}`}
+                    role="switch"
+                    aria-checked={settings.pruneImplied}
+                    aria-labelledby="prune-implied-label"
+                  >
+                    <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${settings.pruneImplied ? 'translate-x-5' : 'translate-x-1'}`} />
+                  </button>
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <EyeOff className={`w-4 h-4 ${settings.minPostCount > 0 ? 'text-red-500' : 'text-slate-400'}`} aria-hidden="true" />
+                    <label htmlFor="min-post-count" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.minPostCount')}</label>
+                  </div>
+                  <select
+                    id="min-post-count"
+                    value={settings.minPostCount || 0}
+                    onChange={(e) => onSettingsChange({ ...settings, minPostCount: parseInt(e.target.value) })}
+                    disabled={disabled}
+                    className="text-xs px-2 py-1 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500/20 focus:border-red-500 transition-all font-mono"
+                  >
+                    {postCountOptions.map(count => (
+                      <option key={count} value={count}>{count === 0 ? t('settings.off') : count.toLocaleString()}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <Download className="w-4 h-4 text-slate-400" aria-hidden="true" />
+                    <label htmlFor="embed-profile" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.embedProfile')}</label>
+                  </div>
+                  <select
+                    id="embed-profile"
+                    value={settings.embedProfile}
+                    onChange={(e) => onSettingsChange({ ...settings, embedProfile: e.target.value as EmbedProfile })}
+                    disabled={disabled}
+                    className="text-xs px-2 py-1 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500/20 focus:border-red-500 transition-all"
+                  >
+                    {(Object.keys(EMBED_PROFILE_LABELS) as EmbedProfile[]).map(profile => (
+                      <option key={profile} value={profile}>{EMBED_PROFILE_LABELS[profile]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Shrink className={`w-4 h-4 ${settings.embedResize ? 'text-red-500' : 'text-slate-400'}`} aria-hidden="true" />
+                    <span id="embed-resize-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.embedResize')}</span>
+                  </div>
+                  <button
+                    onClick={() => onSettingsChange({ ...settings, embedResize: !settings.embedResize })}
+                    disabled={disabled}
+                    className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${settings.embedResize ? 'bg-red-600' : 'bg-slate-200 dark:bg-slate-700'}`}
+                    role="switch"
+                    aria-checked={settings.embedResize}
+                    aria-labelledby="embed-resize-label"
+                  >
+                    <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${settings.embedResize ? 'translate-x-5' : 'translate-x-1'}`} />
                   </button>
                 </div>
 
@@ -225,25 +302,8 @@ export const ToleranceControl: React.FC<ToleranceControlProps> = ({
                   </button>
                 </div>
 
-                {backendConfig.type === 'local_hybrid' && (
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Type className={`w-4 h-4 ${backendConfig.enableNaturalLanguage ? 'text-red-500' : 'text-slate-400'}`} aria-hidden="true" />
-                      <span id="natural-lang-label" className="text-sm text-slate-700 dark:text-slate-300">
-                        {t('settings.enableNaturalLanguage')} <span className="text-xs text-slate-500 dark:text-slate-400">{t('settings.naturalLanguageWarning')}</span>
-                      </span>
-                    </div>
-                    <button
-                      onClick={() => onBackendChange({ ...backendConfig, enableNaturalLanguage: !backendConfig.enableNaturalLanguage })}
-                      disabled={disabled}
-                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${backendConfig.enableNaturalLanguage ? 'bg-red-600' : 'bg-slate-200 dark:bg-slate-700'}`}
-                      role="switch"
-                      aria-checked={backendConfig.enableNaturalLanguage}
-                      aria-labelledby="natural-lang-label"
-                    >
-                      <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${backendConfig.enableNaturalLanguage ? 'translate-x-5' : 'translate-x-1'}`} />
-                    </button>
-                  </div>
+                {OutputOptions && (
+                  <OutputOptions config={backendConfig} onChange={onBackendChange} disabled={disabled} />
                 )}
               </div>
 
@@ -265,6 +325,18 @@ export const ToleranceControl: React.FC<ToleranceControlProps> = ({
                 </div>
 
                 <div className="space-y-4">
+                  {scoreTags && scoreTags.length > 0 && (
+                    <ScoreDistribution
+                      tags={scoreTags}
+                      settings={settings}
+                      categories={categories}
+                      isAdvanced={isAdvanced}
+                      onThresholdChange={(category, value) => category ? updateThreshold(category, value) : updateOverallThreshold(value)}
+                      scoreFloor={scoreFloor}
+                      disabled={disabled}
+                    />
+                  )}
+
                   {!isAdvanced ? (
                     <div className="space-y-1">
                       <div className="flex justify-between text-xs">
@@ -316,7 +388,50 @@ export const ToleranceControl: React.FC<ToleranceControlProps> = ({
                       ))
                   )}
                 </div>
+
+                {isAdvanced && (
+                  <div className="space-y-1 pt-1">
+                    <div className="flex items-center justify-between gap-4">
+                      <span id="score-floor-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.scoreFloor')}</span>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="range"
+                          min="0.01" max="0.5" step="0.01"
+                          value={settings.scoreFloor ?? DEFAULT_SCORE_FLOOR}
+                          onChange={(e) => onSettingsChange({ ...settings, scoreFloor: parseFloat(e.target.value) })}
+                          disabled={disabled}
+                          className="w-24 h-1 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:bg-red-600 [&::-webkit-slider-thumb]:rounded-full"
+                          aria-labelledby="score-floor-label"
+                        />
+                        <span className="w-8 text-right text-xs font-mono text-slate-600 dark:text-slate-400">{(settings.scoreFloor ?? DEFAULT_SCORE_FLOOR).toFixed(2)}</span>
+                      </div>
+                    </div>
+                    <p className="text-[10px] text-slate-400">{t('settings.scoreFloorHint')}</p>
+                  </div>
+                )}
               </div>
+
+              <div className="h-px bg-slate-200 dark:bg-slate-700" role="separator" />
+              <TagRulesControl
+                rules={settings.tagRules}
+                onRulesChange={(tagRules) => onSettingsChange({ ...settings, tagRules })}
+                verification={settings.verification}
+                onVerificationChange={(verification) => onSettingsChange({ ...settings, verification })}
+                showVerification={capabilities.verifiesTags}
+                disabled={disabled}
+              />
+
+              {hasVlmTags && (
+                <>
+                  <div className="h-px bg-slate-200 dark:bg-slate-700" role="separator" />
+                  <MergePolicyControl
+                    policy={settings.mergePolicy}
+                    onChange={(mergePolicy) => onSettingsChange({ ...settings, mergePolicy })}
+                    categories={categories}
+                    disabled={disabled}
+                  />
+                </>
+              )}
             </div>
           ) : (
             <div id="tab-backend" role="tabpanel" className="space-y-4">
@@ -324,113 +439,115 @@ export const ToleranceControl: React.FC<ToleranceControlProps> = ({
               <div className="space-y-2">
                 <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{t('settings.backend.provider')}</label>
                 <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label={t('settings.backend.provider')}>
-                  {(['gemini', 'local_hybrid'] as BackendType[]).map((type) => (
-                    <button
-                      key={type}
-                      onClick={() => onBackendChange({ ...backendConfig, type })}
-                      className={`p-2 rounded-lg border text-xs font-medium flex flex-col items-center gap-1 transition-all ${backendConfig.type === type
-                          ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-500 text-red-700 dark:text-red-300'
-                          : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:border-red-200 dark:hover:border-red-500/50'
-                        }`}
-                      role="radio"
-                      aria-checked={backendConfig.type === type}
+                  {BACKEND_PROVIDERS.map(({ id, labelKey }) => {
+                    const Icon = BACKEND_UI[id].icon;
+                    return (
+                      <button
+                        key={id}
+                        onClick={() => handleBackendChange({ ...backendConfig, type: id })}
+                        className={`p-2 rounded-lg border text-xs font-medium flex flex-col items-center gap-1 transition-all ${backendConfig.type === id
+                            ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-500 text-red-700 dark:text-red-300'
+                            : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:border-red-200 dark:hover:border-red-500/50'
+                          }`}
+                        role="radio"
+                        aria-checked={backendConfig.type === id}
+                      >
+                        <Icon className="w-4 h-4" aria-hidden="true" />
+                        {t(labelKey)}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-700 animate-in slide-in-from-top-1">
+                <SettingsPanel config={backendConfig} onChange={handleBackendChange} disabled={disabled} />
+
+                <div className="flex items-start justify-between gap-2">
+                  <button
+                    onClick={handleHealthCheck}
+                    disabled={isCheckingHealth}
+                    className="text-[10px] text-blue-500 hover:text-blue-600 flex items-center gap-1 shrink-0 disabled:opacity-50"
+                  >
+                    {isCheckingHealth ? <Loader2 className="w-3 h-3 animate-spin" aria-hidden="true" /> : <Activity className="w-3 h-3" aria-hidden="true" />}
+                    {t('settings.backend.testConnection')}
+                  </button>
+                  {health && (
+                    <p
+                      className={`text-[10px] text-right whitespace-pre-line ${health.ok ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+                      role="status"
                     >
-                      {type === 'gemini' && <Globe className="w-4 h-4" aria-hidden="true" />}
-                      {type === 'local_hybrid' && <Server className="w-4 h-4" aria-hidden="true" />}
-                      {type === 'local_hybrid' ? t('settings.backend.eva') : t('settings.backend.gemini')}
-                    </button>
-                  ))}
+                      {health.ok
+                        ? [t('settings.backend.connectionOk'), health.detail].filter(Boolean).join(' · ')
+                        : health.error}
+                    </p>
+                  )}
                 </div>
               </div>
 
-              {backendConfig.type === 'gemini' && (
-                <div className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-700 animate-in slide-in-from-top-1">
-                  <div className="space-y-1">
-                    <label htmlFor="gemini-api-key" className="text-xs text-slate-500">{t('settings.geminiKey')}</label>
-                    <div className="relative">
-                      <input
-                        id="gemini-api-key"
-                        type="password"
-                        value={backendConfig.geminiApiKey}
-                        onChange={(e) => onBackendChange({ ...backendConfig, geminiApiKey: e.target.value })}
-                        className="w-full text-sm pl-8 pr-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all font-mono"
-                        placeholder="AIza..."
-                      />
-                      <Key className="w-4 h-4 text-slate-400 absolute left-2.5 top-2.5" aria-hidden="true" />
-                    </div>
-                    <p className="text-[10px] text-slate-400">{t('settings.backend.keyStorage')}</p>
+              {/* Batch Queue */}
+              <div className="space-y-3 pt-2 border-t border-slate-100 dark:border-slate-800">
+                <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{t('settings.batchQueue')}</label>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <ListOrdered className="w-4 h-4 text-slate-400" aria-hidden="true" />
+                    <span id="batch-concurrency-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.batchConcurrency')}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="range"
+                      min="1" max="8" step="1"
+                      value={backendConfig.batchConcurrency}
+                      onChange={(e) => onBackendChange({ ...backendConfig, batchConcurrency: parseInt(e.target.value) })}
+                      disabled={disabled}
+                      className="w-24 h-1 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:bg-red-600 [&::-webkit-slider-thumb]:rounded-full"
+                      aria-labelledby="batch-concurrency-label"
+                    />
+                    <span className="w-8 text-right text-xs font-mono text-slate-600 dark:text-slate-400">{backendConfig.batchConcurrency}</span>
                   </div>
                 </div>
-              )}
 
-              {backendConfig.type === 'local_hybrid' && (
-                <div className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-700 animate-in slide-in-from-top-1">
-                  <div className="p-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800 rounded text-[10px] text-blue-600 dark:text-blue-300 leading-tight">
-                    {t('settings.backend.evaDescription')}
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <RotateCw className="w-4 h-4 text-slate-400" aria-hidden="true" />
+                    <span id="batch-retries-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.batchRetries')}</span>
                   </div>
-                  <div className="space-y-1">
-                    <label htmlFor="ollama-endpoint" className="text-xs text-slate-500">{t('settings.backend.ollamaEndpointLabel')}</label>
+                  <div className="flex items-center gap-2">
                     <input
-                      id="ollama-endpoint"
-                      type="text"
-                      value={backendConfig.ollamaEndpoint}
-                      onChange={(e) => onBackendChange({ ...backendConfig, ollamaEndpoint: e.target.value })}
-                      className="w-full text-sm px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all"
-                      placeholder="http://localhost:11434"
+                      type="range"
+                      min="0" max="5" step="1"
+                      value={backendConfig.batchMaxRetries}
+                      onChange={(e) => onBackendChange({ ...backendConfig, batchMaxRetries: parseInt(e.target.value) })}
+                      disabled={disabled}
+                      className="w-24 h-1 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:bg-red-600 [&::-webkit-slider-thumb]:rounded-full"
+                      aria-labelledby="batch-retries-label"
                     />
+                    <span className="w-8 text-right text-xs font-mono text-slate-600 dark:text-slate-400">{backendConfig.batchMaxRetries}</span>
                   </div>
-                  <div className="space-y-1">
-                    <div className="flex items-center justify-between">
-                      <label htmlFor="ollama-model" className="text-xs text-slate-500">{t('settings.backend.ollamaModel')}</label>
-                      <button
-                        onClick={handleFetchModels}
-                        disabled={isLoadingModels}
-                        className="text-[10px] text-blue-500 hover:text-blue-600 flex items-center gap-1"
-                        aria-label={t('settings.refresh')}
-                      >
-                        <RefreshCw className={`w-3 h-3 ${isLoadingModels ? 'animate-spin' : ''}`} aria-hidden="true" />
-                        {t('settings.refresh')}
-                      </button>
-                    </div>
+                </div>
 
-                    {availableModels.length > 0 ? (
-                      <div className="relative">
-                        <select
-                          id="ollama-model"
-                          value={backendConfig.ollamaModel}
-                          onChange={(e) => onBackendChange({ ...backendConfig, ollamaModel: e.target.value })}
-                          className="w-full text-sm px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all appearance-none"
-                        >
-                          {availableModels.map(model => (
-                            <option key={model} value={model}>{model}</option>
-                          ))}
-                        </select>
-                        <ChevronDown className="w-4 h-4 text-slate-400 absolute right-2.5 top-2.5 pointer-events-none" aria-hidden="true" />
-                      </div>
-                    ) : (
-                      <input
-                        id="ollama-model"
-                        type="text"
-                        value={backendConfig.ollamaModel}
-                        onChange={(e) => onBackendChange({ ...backendConfig, ollamaModel: e.target.value })}
-                        className="w-full text-sm px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all"
-                        placeholder="qwen:vl (Enter manually if fetch fails)"
-                      />
-                    )}
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <TriangleAlert className="w-4 h-4 text-slate-400" aria-hidden="true" />
+                    <span id="batch-degraded-retries-label" className="text-sm text-slate-700 dark:text-slate-300">{t('settings.batchDegradedRetries')}</span>
                   </div>
-                  <div className="space-y-1">
-                    <label htmlFor="tagger-endpoint" className="text-xs text-slate-500">Local Tagger Endpoint (WD1.4)</label>
+                  <div className="flex items-center gap-2">
                     <input
-                      id="tagger-endpoint"
-                      type="text"
-                      value={backendConfig.taggerEndpoint}
-                      onChange={(e) => onBackendChange({ ...backendConfig, taggerEndpoint: e.target.value })}
-                      className="w-full text-sm px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all"
-                      placeholder="/interrogate/eva"
+                      type="range"
+                      min="0" max="5" step="1"
+                      value={backendConfig.batchMaxDegradedRetries}
+                      onChange={(e) => onBackendChange({ ...backendConfig, batchMaxDegradedRetries: parseInt(e.target.value) })}
+                      disabled={disabled}
+                      className="w-24 h-1 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:bg-red-600 [&::-webkit-slider-thumb]:rounded-full"
+                      aria-labelledby="batch-degraded-retries-label"
                     />
+                    <span className="w-8 text-right text-xs font-mono text-slate-600 dark:text-slate-400">{backendConfig.batchMaxDegradedRetries}</span>
                   </div>
                 </div>
-              )}
+              </div>
+
+              <ResultCacheControl config={backendConfig} onChange={onBackendChange} disabled={disabled} />
             </div>
           )}
         </div>
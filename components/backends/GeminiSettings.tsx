@@ -0,0 +1,26 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Key } from 'lucide-react';
+import { BackendSettingsProps } from '../../types';
+
+export const GeminiSettings: React.FC<BackendSettingsProps> = ({ config, onChange }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-1">
+      <label htmlFor="gemini-api-key" className="text-xs text-slate-500">{t('settings.geminiKey')}</label>
+      <div className="relative">
+        <input
+          id="gemini-api-key"
+          type="password"
+          value={config.geminiApiKey}
+          onChange={(e) => onChange({ ...config, geminiApiKey: e.target.value })}
+          className="w-full text-sm pl-8 pr-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all font-mono"
+          placeholder="AIza..."
+        />
+        <Key className="w-4 h-4 text-slate-400 absolute left-2.5 top-2.5" aria-hidden="true" />
+      </div>
+      <p className="text-[10px] text-slate-400">{t('settings.backend.keyStorage')}</p>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, RefreshCw, Type } from 'lucide-react';
+import { localHybridProvider } from '../../services/providers/localHybridProvider';
+import { BackendSettingsProps } from '../../types';
+import { TaggerEndpointField } from './TaggerSettings';
+
+export const LocalHybridSettings: React.FC<BackendSettingsProps> = ({ config, onChange }) => {
+  const { t } = useTranslation();
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+
+  // The fetch outlives renders; read the latest props so a reply never restores stale fields
+  const latest = useRef({ config, onChange });
+  latest.current = { config, onChange };
+
+  const handleFetchModels = useCallback(async () => {
+    const provider = localHybridProvider;
+    if (!provider.listModels || !latest.current.config.ollamaEndpoint) return;
+
+    setIsLoadingModels(true);
+    try {
+      const models = await provider.listModels(latest.current.config);
+      setAvailableModels(models);
+      
+      // Smart selection logic
+      const { config: current, onChange: update } = latest.current;
+      if (models.length > 0 && !models.includes(current.ollamaModel)) {
+        // 1. Try to find a model that contains the current config name (e.g. 'qwen3-vl' -> 'qwen3-vl:30b')
+        const partialMatch = current.ollamaModel
+          ? models.find(m => m.includes(current.ollamaModel) || current.ollamaModel.includes(m))
+          : undefined;
+        
+        if (partialMatch) {
+           update({ ...current, ollamaModel: partialMatch });
+        } else {
+           // 2. Fallback to first available
+           update({ ...current, ollamaModel: models[0] });
+        }
+      }
+    } catch (e) {
+      console.error("Failed to load models", e);
+    } finally {
+      setIsLoadingModels(false);
+    }
+  }, []);
+
+  // Fetch models when the panel opens or when endpoint changes
+  useEffect(() => {
+    handleFetchModels();
+  }, [config.ollamaEndpoint, handleFetchModels]);
+
+  return (
+    <>
+      <div className="p-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800 rounded text-[10px] text-blue-600 dark:text-blue-300 leading-tight">
+        {t('settings.backend.evaDescription')}
+      </div>
+      <div className="space-y-1">
+        <label htmlFor="ollama-endpoint" className="text-xs text-slate-500">{t('settings.backend.ollamaEndpointLabel')}</label>
+        <input
+          id="ollama-endpoint"
+          type="text"
+          value={config.ollamaEndpoint}
+          onChange={(e) => onChange({ ...config, ollamaEndpoint: e.target.value })}
+          className="w-full text-sm px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all"
+          placeholder="http://localhost:11434"
+        />
+      </div>
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <label htmlFor="ollama-model" className="text-xs text-slate-500">{t('settings.backend.ollamaModel')}</label>
+          <button
+            onClick={handleFetchModels}
+            disabled={isLoadingModels}
+            className="text-[10px] text-blue-500 hover:text-blue-600 flex items-center gap-1"
+            aria-label={t('settings.refresh')}
+          >
+            <RefreshCw className={`w-3 h-3 ${isLoadingModels ? 'animate-spin' : ''}`} aria-hidden="true" />
+            {t('settings.refresh')}
+          </button>
+        </div>
+
+        {availableModels.length > 0 ? (
+          <div className="relative">
+            <select
+              id="ollama-model"
+              value={config.ollamaModel}
+              onChange={(e) => onChange({ ...config, ollamaModel: e.target.value })}
+              className="w-full text-sm px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all appearance-none"
+            >
+              {availableModels.map(model => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+            <ChevronDown className="w-4 h-4 text-slate-400 absolute right-2.5 top-2.5 pointer-events-none" aria-hidden="true" />
+          </div>
+        ) : (
+          <input
+            id="ollama-model"
+            type="text"
+            value={config.ollamaModel}
+            onChange={(e) => onChange({ ...config, ollamaModel: e.target.value })}
+            className="w-full text-sm px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all"
+            placeholder="qwen:vl (Enter manually if fetch fails)"
+          />
+        )}
+      </div>
+      <TaggerEndpointField config={config} onChange={onChange} />
+    </>
+  );
+};
+
+// Shown with the output settings on the tags tab for the hybrid backends
+export const NaturalLanguageOption: React.FC<BackendSettingsProps> = ({ config, onChange, disabled }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <Type className={`w-4 h-4 ${config.enableNaturalLanguage ? 'text-red-500' : 'text-slate-400'}`} aria-hidden="true" />
+        <span id="natural-lang-label" className="text-sm text-slate-700 dark:text-slate-300">
+          {t('settings.enableNaturalLanguage')} <span className="text-xs text-slate-500 dark:text-slate-400">{t('settings.naturalLanguageWarning')}</span>
+        </span>
+      </div>
+      <button
+        onClick={() => onChange({ ...config, enableNaturalLanguage: !config.enableNaturalLanguage })}
+        disabled={disabled}
+        className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${config.enableNaturalLanguage ? 'bg-red-600' : 'bg-slate-200 dark:bg-slate-700'}`}
+        role="switch"
+        aria-checked={config.enableNaturalLanguage}
+        aria-labelledby="natural-lang-label"
+      >
+        <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${config.enableNaturalLanguage ? 'translate-x-5' : 'translate-x-1'}`} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FolderOpen, X } from 'lucide-react';
+import { BackendSettingsProps } from '../../types';
+import { getOnnxLocalFiles, setOnnxLocalFile } from '../../services/onnxTagger';
+
+const inputClassName = "w-full text-sm px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all";
+
+interface SourceFieldProps {
+  id: string;
+  label: string;
+  url: string;
+  onUrlChange: (url: string) => void;
+  file?: File;
+  onFileChange: (file: File | undefined) => void;
+  accept: string;
+  placeholder: string;
+}
+
+// A URL input that a file picked from disk can override
+const SourceField: React.FC<SourceFieldProps> = ({ id, label, url, onUrlChange, file, onFileChange, accept, placeholder }) => {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <label htmlFor={id} className="text-xs text-slate-500">{label}</label>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="text-[10px] text-blue-500 hover:text-blue-600 flex items-center gap-1"
+        >
+          <FolderOpen className="w-3 h-3" aria-hidden="true" />
+          {t('settings.backend.onnxChooseFile')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={accept}
+          className="hidden"
+          onChange={(e) => {
+            onFileChange(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {file ? (
+        <div className="flex items-center justify-between gap-2 text-sm px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md">
+          <span className="font-mono text-xs truncate" title={file.name}>{file.name}</span>
+          <button
+            onClick={() => onFileChange(undefined)}
+            className="text-slate-400 hover:text-red-500 shrink-0"
+            aria-label={t('settings.backend.onnxClearFile')}
+            title={t('settings.backend.onnxClearFile')}
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </button>
+        </div>
+      ) : (
+        <input
+          id={id}
+          type="text"
+          value={url}
+          onChange={(e) => onUrlChange(e.target.value)}
+          className={inputClassName}
+          placeholder={placeholder}
+        />
+      )}
+    </div>
+  );
+};
+
+export const OnnxSettings: React.FC<BackendSettingsProps> = ({ config, onChange }) => {
+  const { t } = useTranslation();
+  const [files, setFiles] = useState(getOnnxLocalFiles);
+
+  const handleFileChange = (kind: 'model' | 'tags') => (file: File | undefined) => {
+    setOnnxLocalFile(kind, file);
+    setFiles(getOnnxLocalFiles());
+    // The files are not part of the config, but the app still needs to re-validate
+    onChange({ ...config });
+  };
+
+  return (
+    <>
+      <div className="p-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800 rounded text-[10px] text-blue-600 dark:text-blue-300 leading-tight">
+        {t('settings.backend.onnxDescription')}
+      </div>
+      <SourceField
+        id="onnx-model"
+        label={t('settings.backend.onnxModel')}
+        url={config.onnxModelUrl}
+        onUrlChange={(onnxModelUrl) => onChange({ ...config, onnxModelUrl })}
+        file={files.model}
+        onFileChange={handleFileChange('model')}
+        accept=".onnx"
+        placeholder="https://huggingface.co/.../model.onnx"
+      />
+      <SourceField
+        id="onnx-tags"
+        label={t('settings.backend.onnxTags')}
+        url={config.onnxTagsUrl}
+        onUrlChange={(onnxTagsUrl) => onChange({ ...config, onnxTagsUrl })}
+        file={files.tags}
+        onFileChange={handleFileChange('tags')}
+        accept=".csv"
+        placeholder="https://huggingface.co/.../selected_tags.csv"
+      />
+      <p className="text-[10px] text-slate-400">{t('settings.backend.onnxStorage')}</p>
+    </>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, RefreshCw, Key } from 'lucide-react';
+import { BackendSettingsProps } from '../../types';
+import { openAiHybridProvider } from '../../services/providers/openAiHybridProvider';
+import { TaggerEndpointField } from './TaggerSettings';
+
+const inputClassName = "w-full text-sm px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all";
+
+// Wait for the user to stop typing the endpoint or key before asking the server
+const MODEL_FETCH_DELAY_MS = 600;
+
+export const OpenAiHybridSettings: React.FC<BackendSettingsProps> = ({ config, onChange }) => {
+  const { t } = useTranslation();
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  // The fetch outlives renders; read the latest props so a reply never restores stale fields
+  const latest = useRef({ config, onChange });
+  latest.current = { config, onChange };
+  const fetchId = useRef(0);
+
+  const handleFetchModels = useCallback(async () => {
+    const provider = openAiHybridProvider;
+    if (!provider.listModels || !latest.current.config.openaiEndpoint) return;
+
+    const id = ++fetchId.current;
+    setIsLoadingModels(true);
+    try {
+      const models = await provider.listModels(latest.current.config);
+      if (id !== fetchId.current) return;
+      setAvailableModels(models);
+
+      // llama.cpp and vLLM usually serve a single model; pick it when nothing valid is selected
+      const { config: current, onChange: update } = latest.current;
+      if (models.length > 0 && (!current.openaiModel || !models.includes(current.openaiModel))) {
+        update({ ...current, openaiModel: models[0] });
+      }
+    } catch (e) {
+      if (id !== fetchId.current) return;
+      console.error("Failed to load models", e);
+      setAvailableModels([]);
+    } finally {
+      if (id === fetchId.current) setIsLoadingModels(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(handleFetchModels, MODEL_FETCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [config.openaiEndpoint, config.openaiApiKey, handleFetchModels]);
+
+  return (
+    <>
+      <div className="p-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800 rounded text-[10px] text-blue-600 dark:text-blue-300 leading-tight">
+        {t('settings.backend.openaiHybridDescription')}
+      </div>
+      <div className="space-y-1">
+        <label htmlFor="openai-endpoint" className="text-xs text-slate-500">{t('settings.backend.openaiEndpointLabel')}</label>
+        <input
+          id="openai-endpoint"
+          type="text"
+          value={config.openaiEndpoint}
+          onChange={(e) => onChange({ ...config, openaiEndpoint: e.target.value })}
+          className={inputClassName}
+          placeholder="http://localhost:8080/v1"
+        />
+      </div>
+      <div className="space-y-1">
+        <label htmlFor="openai-api-key" className="text-xs text-slate-500">{t('settings.backend.openaiKey')}</label>
+        <div className="relative">
+          <input
+            id="openai-api-key"
+            type="password"
+            value={config.openaiApiKey}
+            onChange={(e) => onChange({ ...config, openaiApiKey: e.target.value })}
+            className="w-full text-sm pl-8 pr-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all font-mono"
+            placeholder="sk-..."
+          />
+          <Key className="w-4 h-4 text-slate-400 absolute left-2.5 top-2.5" aria-hidden="true" />
+        </div>
+        <p className="text-[10px] text-slate-400">{t('settings.backend.openaiKeyHint')}</p>
+      </div>
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <label htmlFor="openai-model" className="text-xs text-slate-500">{t('settings.backend.openaiModel')}</label>
+          <button
+            onClick={handleFetchModels}
+            disabled={isLoadingModels}
+            className="text-[10px] text-blue-500 hover:text-blue-600 flex items-center gap-1"
+            aria-label={t('settings.refresh')}
+          >
+            <RefreshCw className={`w-3 h-3 ${isLoadingModels ? 'animate-spin' : ''}`} aria-hidden="true" />
+            {t('settings.refresh')}
+          </button>
+        </div>
+
+        {availableModels.length > 0 ? (
+          <div className="relative">
+            <select
+              id="openai-model"
+              value={config.openaiModel}
+              onChange={(e) => onChange({ ...config, openaiModel: e.target.value })}
+              className={`${inputClassName} appearance-none`}
+            >
+              {availableModels.map(model => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+            <ChevronDown className="w-4 h-4 text-slate-400 absolute right-2.5 top-2.5 pointer-events-none" aria-hidden="true" />
+          </div>
+        ) : (
+          <input
+            id="openai-model"
+            type="text"
+            value={config.openaiModel}
+            onChange={(e) => onChange({ ...config, openaiModel: e.target.value })}
+            className={inputClassName}
+            placeholder="Qwen2.5-VL-7B-Instruct"
+          />
+        )}
+      </div>
+      <TaggerEndpointField config={config} onChange={onChange} />
+    </>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, Plus, X } from 'lucide-react';
+import { BackendSettingsProps, FusionMethod, TaggerEndpoint } from '../../types';
+
+const FUSION_METHODS: FusionMethod[] = ['mean', 'max', 'weighted', 'vote'];
+
+const fieldClassName = "w-full text-sm py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-red-500 outline-none transition-all";
+const inputClassName = `${fieldClassName} px-3`;
+// Name and weight columns are narrow
+const compactClassName = `${fieldClassName} px-2`;
+
+// Shared by every backend that runs the local tagger first
+export const TaggerEndpointField: React.FC<BackendSettingsProps> = ({ config, onChange }) => {
+  const { t } = useTranslation();
+  const extraTaggers = config.extraTaggers || [];
+  const showWeights = config.fusionMethod === 'weighted';
+  const rowClassName = `grid gap-1.5 ${showWeights ? 'grid-cols-[5.5rem_1fr_3.5rem_1.25rem]' : 'grid-cols-[5.5rem_1fr_1.25rem]'}`;
+
+  const updateExtraTagger = (index: number, changes: Partial<TaggerEndpoint>) => {
+    onChange({
+      ...config,
+      extraTaggers: extraTaggers.map((tagger, i) => i === index ? { ...tagger, ...changes } : tagger)
+    });
+  };
+
+  const handleAddTagger = () => {
+    onChange({
+      ...config,
+      extraTaggers: [...extraTaggers, { name: `Tagger ${extraTaggers.length + 2}`, endpoint: '', weight: 1 }]
+    });
+  };
+
+  const handleRemoveTagger = (index: number) => {
+    onChange({ ...config, extraTaggers: extraTaggers.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        <label htmlFor="tagger-endpoint" className="text-xs text-slate-500">Local Tagger Endpoint (WD1.4)</label>
+        <div className={rowClassName}>
+          <input
+            type="text"
+            value={config.taggerName}
+            onChange={(e) => onChange({ ...config, taggerName: e.target.value })}
+            className={compactClassName}
+            placeholder="EVA"
+            aria-label={t('settings.tagger.name')}
+            title={t('settings.tagger.name')}
+          />
+          <input
+            id="tagger-endpoint"
+            type="text"
+            value={config.taggerEndpoint}
+            onChange={(e) => onChange({ ...config, taggerEndpoint: e.target.value })}
+            className={inputClassName}
+            placeholder="/interrogate/eva"
+          />
+          {showWeights && (
+            <input
+              type="number"
+              value={1}
+              disabled
+              className={`${compactClassName} font-mono opacity-60`}
+              aria-label={t('settings.tagger.weight')}
+              title={t('settings.tagger.mainWeight')}
+            />
+          )}
+        </div>
+      </div>
+
+      {extraTaggers.length > 0 && (
+        <div className="space-y-1.5">
+          {extraTaggers.map((tagger, index) => (
+            <div key={index} className={rowClassName}>
+              <input
+                type="text"
+                value={tagger.name}
+                onChange={(e) => updateExtraTagger(index, { name: e.target.value })}
+                className={compactClassName}
+                placeholder="SwinV2"
+                aria-label={t('settings.tagger.name')}
+                title={t('settings.tagger.name')}
+              />
+              <input
+                type="text"
+                value={tagger.endpoint}
+                onChange={(e) => updateExtraTagger(index, { endpoint: e.target.value })}
+                className={inputClassName}
+                placeholder="/interrogate/swinv2"
+                aria-label={t('settings.tagger.endpoint', { name: tagger.name })}
+              />
+              {showWeights && (
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  value={tagger.weight}
+                  onChange={(e) => updateExtraTagger(index, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className={`${compactClassName} font-mono`}
+                  aria-label={t('settings.tagger.weight')}
+                  title={t('settings.tagger.weight')}
+                />
+              )}
+              <button
+                onClick={() => handleRemoveTagger(index)}
+                className="text-slate-400 hover:text-red-500 flex items-center justify-center"
+                aria-label={t('settings.tagger.remove', { name: tagger.name })}
+                title={t('settings.tagger.remove', { name: tagger.name })}
+              >
+                <X className="w-4 h-4" aria-hidden="true" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handleAddTagger}
+        className="text-[10px] text-blue-500 hover:text-blue-600 flex items-center gap-1"
+      >
+        <Plus className="w-3 h-3" aria-hidden="true" />
+        {t('settings.tagger.add')}
+      </button>
+
+      {extraTaggers.length > 0 && (
+        <div className="space-y-1">
+          <label htmlFor="tagger-fusion" className="text-xs text-slate-500">{t('settings.tagger.fusion')}</label>
+          <div className="relative">
+            <select
+              id="tagger-fusion"
+              value={config.fusionMethod}
+              onChange={(e) => onChange({ ...config, fusionMethod: e.target.value as FusionMethod })}
+              className={`${inputClassName} appearance-none`}
+            >
+              {FUSION_METHODS.map(method => (
+                <option key={method} value={method}>{t(`settings.tagger.fusionMethods.${method}`)}</option>
+              ))}
+            </select>
+            <ChevronDown className="w-4 h-4 text-slate-400 absolute right-2.5 top-2.5 pointer-events-none" aria-hidden="true" />
+          </div>
+          <p className="text-[10px] text-slate-400">{t(`settings.tagger.fusionHints.${config.fusionMethod}`)}</p>
+        </div>
+      )}
+    </div>
+  );
+};
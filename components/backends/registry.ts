@@ -0,0 +1,37 @@
+import React from 'react';
+import { Globe, Server, Plug, Cpu, LucideIcon } from 'lucide-react';
+import { BackendSettingsProps, BackendType } from '../../types';
+import { GeminiSettings } from './GeminiSettings';
+import { LocalHybridSettings, NaturalLanguageOption } from './LocalHybridSettings';
+import { OpenAiHybridSettings } from './OpenAiHybridSettings';
+import { OnnxSettings } from './OnnxSettings';
+
+interface BackendUi {
+  icon: LucideIcon;
+  // Rendered on the backend tab below the provider picker
+  SettingsPanel: React.FC<BackendSettingsProps>;
+  // Extra switches rendered with the output settings on the tags tab
+  OutputOptions?: React.FC<BackendSettingsProps>;
+}
+
+// UI counterpart of services/providers/registry
+export const BACKEND_UI: Record<BackendType, BackendUi> = {
+  gemini: {
+    icon: Globe,
+    SettingsPanel: GeminiSettings
+  },
+  local_hybrid: {
+    icon: Server,
+    SettingsPanel: LocalHybridSettings,
+    OutputOptions: NaturalLanguageOption
+  },
+  openai_hybrid: {
+    icon: Plug,
+    SettingsPanel: OpenAiHybridSettings,
+    OutputOptions: NaturalLanguageOption
+  },
+  onnx_browser: {
+    icon: Cpu,
+    SettingsPanel: OnnxSettings
+  }
+};
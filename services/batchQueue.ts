@@ -0,0 +1,158 @@
+import { BatchItem, InterrogationResult } from '../types';
+import i18n from '../i18n/config';
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  // Retries for results where a source failed; each re-runs the whole pipeline, vision model included
+  maxDegradedRetries?: number;
+  retryBaseDelayMs?: number;
+  // Processes one item. Must honour the signal so cancel can stop in-flight requests.
+  run: (
+    index: number,
+    signal: AbortSignal,
+    onProgress: (status: string, progress: number) => void
+  ) => Promise<InterrogationResult>;
+  onItemUpdate: (index: number, update: Partial<BatchItem>) => void;
+}
+
+export interface BatchQueue {
+  start: () => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+}
+
+export const isAbortError = (error: unknown): boolean => {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+};
+
+// Resolves after `ms`, or rejects early with an AbortError when the signal fires
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Runs `count` jobs with bounded concurrency, per-item retries (exponential backoff),
+ * pause/resume and AbortController-based cancellation. Degraded results (a source
+ * failed) get their own, usually smaller, retry budget and are kept once it is used
+ * up, or when the item is cancelled or later attempts fail outright.
+ * Pausing lets in-flight items finish but keeps new ones from starting.
+ */
+export const createBatchQueue = (count: number, options: BatchQueueOptions): BatchQueue => {
+  const controller = new AbortController();
+  const retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+  const maxDegradedRetries = options.maxDegradedRetries ?? options.maxRetries;
+  let nextIndex = 0;
+  let isPaused = false;
+  let resumeWaiters: (() => void)[] = [];
+
+  const waitWhilePaused = async () => {
+    while (isPaused && !controller.signal.aborted) {
+      await new Promise<void>(resolve => resumeWaiters.push(resolve));
+    }
+  };
+
+  const processItem = async (index: number) => {
+    // Kept in case every retry fails outright; a degraded result beats none
+    let degradedResult: InterrogationResult | null = null;
+    let degradedRetries = 0;
+
+    for (let attempt = 1; attempt <= options.maxRetries + 1; attempt++) {
+      if (controller.signal.aborted) break;
+
+      options.onItemUpdate(index, { status: 'running', attempts: attempt, progress: 0, error: undefined });
+      let message: string;
+      try {
+        const result = await options.run(index, controller.signal, (statusMessage, progress) => {
+          options.onItemUpdate(index, { statusMessage, progress });
+        });
+        // A backend was down for part of the run: retry while both budgets allow
+        if (!result.failedSources?.length || attempt > options.maxRetries || degradedRetries >= maxDegradedRetries) {
+          options.onItemUpdate(index, { status: 'done', result, progress: 100, statusMessage: undefined });
+          return;
+        }
+        degradedResult = result;
+        degradedRetries++;
+        message = i18n.t('batch.degraded', { sources: result.failedSources.join(', ') });
+      } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) break;
+
+        message = error instanceof Error ? error.message : String(error);
+        // The retry after a degraded result counts against the degraded budget
+        if (attempt > options.maxRetries || (degradedResult && degradedRetries >= maxDegradedRetries)) {
+          if (degradedResult) {
+            options.onItemUpdate(index, { status: 'done', result: degradedResult, progress: 100, statusMessage: undefined });
+          } else {
+            options.onItemUpdate(index, { status: 'error', error: message, statusMessage: undefined });
+          }
+          return;
+        }
+      }
+
+      // Exponential backoff with a little jitter so parallel failures don't retry in lockstep
+      const delay = retryBaseDelayMs * 2 ** (attempt - 1) + Math.random() * 250;
+      console.warn(`[BatchQueue] Item ${index} failed (attempt ${attempt}), retrying in ${Math.round(delay)}ms:`, message);
+      options.onItemUpdate(index, { status: 'retrying', error: message });
+      try {
+        await sleep(delay, controller.signal);
+      } catch {
+        break;
+      }
+    }
+
+    if (degradedResult) {
+      options.onItemUpdate(index, { status: 'done', result: degradedResult, progress: 100, error: undefined, statusMessage: undefined });
+    } else {
+      options.onItemUpdate(index, { status: 'cancelled', statusMessage: undefined });
+    }
+  };
+
+  const worker = async () => {
+    while (true) {
+      await waitWhilePaused();
+      if (controller.signal.aborted || nextIndex >= count) return;
+      await processItem(nextIndex++);
+    }
+  };
+
+  return {
+    start: async () => {
+      const workers = Array.from({ length: Math.max(1, Math.min(options.concurrency, count)) }, worker);
+      await Promise.all(workers);
+
+      // Anything never picked up (cancelled before it started) is marked as such
+      for (let index = nextIndex; index < count; index++) {
+        options.onItemUpdate(index, { status: 'cancelled' });
+      }
+    },
+    pause: () => {
+      isPaused = true;
+    },
+    resume: () => {
+      isPaused = false;
+      resumeWaiters.forEach(resolve => resolve());
+      resumeWaiters = [];
+    },
+    cancel: () => {
+      controller.abort();
+      // Wake paused workers so they can observe the abort and exit
+      resumeWaiters.forEach(resolve => resolve());
+      resumeWaiters = [];
+    },
+  };
+};
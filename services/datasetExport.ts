@@ -0,0 +1,240 @@
+import JSZip from 'jszip';
+import { CaptionContent, DatasetExportOptions, InterrogationResult, MetadataFormat, Tag, TaggingSettings } from '../types';
+import { formatTagString, processTags, withTriggerPhrase } from './tagProcessing';
+
+export interface DatasetEntry {
+  file: File;
+  result: InterrogationResult;
+}
+
+/**
+ * Builds the sidecar caption for one image from the same processed tags the UI shows.
+ * 'both' puts tags first so the trigger phrase and tags stay at the front for keep_tokens.
+ */
+export const buildCaption = (
+  result: InterrogationResult,
+  settings: TaggingSettings,
+  content: CaptionContent
+): string => {
+  const tagString = formatTagString(processTags(result.tags, settings), settings);
+  const description = result.naturalDescription?.trim() || '';
+
+  let caption: string;
+  switch (content) {
+    case 'description':
+      caption = description;
+      break;
+    case 'both':
+      caption = [tagString, description].filter(Boolean).join(', ');
+      break;
+    case 'tags':
+    default:
+      caption = tagString;
+  }
+
+  return withTriggerPhrase(caption, settings);
+};
+
+// Folder names end up on disk; keep them portable
+const sanitizePathSegment = (name: string): string => {
+  return name.trim().replace(/[\\/:*?"<>|]+/g, '_').replace(/\s+/g, '_') || 'concept';
+};
+
+// Zip / tar imports keep their inner paths; only the base name goes into the dataset
+const getBaseName = (fileName: string): string => {
+  return fileName.split(/[\\/]/).pop() || fileName;
+};
+
+const getDatasetFolder = (options: DatasetExportOptions): string => {
+  const concept = sanitizePathSegment(options.conceptName);
+  const repeats = Math.max(1, Math.floor(options.repeats));
+
+  switch (options.layout) {
+    case 'kohya':
+      // kohya-ss sd-scripts: <train_data_dir>/<repeats>_<concept>/
+      return `img/${repeats}_${concept}/`;
+    case 'onetrainer':
+      // OneTrainer reads repeats from concepts.json rather than the folder name
+      return `${concept}/`;
+    case 'flat':
+    default:
+      return '';
+  }
+};
+
+/**
+ * Assigns each entry a unique base file name inside the export.
+ * Batches can contain the same file name from different archive folders.
+ */
+const assignFileNames = (entries: DatasetEntry[]): { fileName: string; stem: string }[] => {
+  const usedNames = new Set<string>();
+
+  return entries.map(({ file }) => {
+    const baseName = getBaseName(file.name);
+    const dot = baseName.lastIndexOf('.');
+    const stem = dot > 0 ? baseName.slice(0, dot) : baseName;
+    const extension = dot > 0 ? baseName.slice(dot) : '';
+
+    let uniqueStem = stem;
+    for (let i = 1; usedNames.has(uniqueStem.toLowerCase()); i++) {
+      uniqueStem = `${stem}_${i}`;
+    }
+    usedNames.add(uniqueStem.toLowerCase());
+
+    return { fileName: `${uniqueStem}${extension}`, stem: uniqueStem };
+  });
+};
+
+/**
+ * Packs every interrogated image with a matching .txt caption into a training-ready zip.
+ * Works from client-side results only, so it does not matter which backend produced the tags.
+ */
+export const buildDatasetZip = async (
+  entries: DatasetEntry[],
+  settings: TaggingSettings,
+  options: DatasetExportOptions
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const folder = getDatasetFolder(options);
+  const names = assignFileNames(entries);
+
+  entries.forEach(({ file, result }, index) => {
+    const { fileName, stem } = names[index];
+    zip.file(`${folder}${fileName}`, file);
+    zip.file(`${folder}${stem}.txt`, buildCaption(result, settings, options.captionContent));
+  });
+
+  if (options.layout === 'onetrainer') {
+    const concept = sanitizePathSegment(options.conceptName);
+    const concepts = [{
+      name: concept,
+      path: concept,
+      enabled: true,
+      include_subdirectories: false,
+      balancing: Math.max(1, Math.floor(options.repeats)),
+      balancing_strategy: 'REPEATS',
+      text: {
+        prompt_source: 'sample', // One .txt per image
+        enable_tag_shuffling: false,
+        keep_tags_count: 1,
+      },
+    }];
+    zip.file('concepts.json', JSON.stringify(concepts, null, 2));
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// Tag fields as they appear in JSONL / CSV exports (snake_case for downstream Python scripts)
+const serializeTag = (tag: Tag, selected: boolean) => ({
+  name: tag.name,
+  score: Number(tag.score.toFixed(4)),
+  category: tag.category,
+  source: tag.source || 'local',
+  disputed: !!tag.disputed,
+  selected, // Passes the current output settings (thresholds, Top K, ...)
+  ...(tag.aliasOf ? { alias_of: tag.aliasOf } : {}),
+  ...(tag.taggers ? { taggers: tag.taggers.map(({ tagger, score }) => ({ tagger, score: Number(score.toFixed(4)) })) } : {}),
+});
+
+/**
+ * Every raw tag of an image, most confident first, with whether it made the cut.
+ * Downstream scripts pick their own thresholds, so nothing below ours is dropped.
+ */
+const serializeAllTags = (result: InterrogationResult, settings: TaggingSettings) => {
+  const selectedNames = new Set(processTags(result.tags, settings).map(tag => tag.name));
+  return [...result.tags]
+    .sort((a, b) => b.score - a.score)
+    .map(tag => serializeTag(tag, selectedNames.has(tag.name)));
+};
+
+const escapeCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One JSON object per image with full tag scores, categories, sources and per-tagger scores
+export const buildResultsJsonl = (entries: DatasetEntry[], settings: TaggingSettings): string => {
+  const names = assignFileNames(entries);
+  return entries.map(({ result }, index) => JSON.stringify({
+    file_name: names[index].fileName,
+    natural_description: result.naturalDescription || null,
+    tags: serializeAllTags(result, settings),
+  })).join('\n') + '\n';
+};
+
+// Long format: one row per (image, tag) so scores can be loaded straight into a dataframe
+export const buildResultsCsv = (entries: DatasetEntry[], settings: TaggingSettings): string => {
+  const names = assignFileNames(entries);
+  const rows = [['file_name', 'tag', 'score', 'category', 'source', 'disputed', 'selected', 'alias_of', 'tagger_scores']];
+
+  entries.forEach(({ result }, index) => {
+    for (const tag of serializeAllTags(result, settings)) {
+      rows.push([
+        names[index].fileName,
+        tag.name,
+        String(tag.score),
+        tag.category,
+        tag.source,
+        String(tag.disputed),
+        String(tag.selected),
+        tag.alias_of || '',
+        // e.g. "SwinV2=0.91;EVA02=0.88"
+        tag.taggers?.map(({ tagger, score }) => `${tagger}=${score}`).join(';') || ''
+      ]);
+    }
+  });
+
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Hugging Face `imagefolder` layout: images next to a metadata.jsonl whose rows reference them by file_name.
+ * `text` holds the training caption; every raw tag's fields are parallel lists so the schema stays flat.
+ */
+export const buildHuggingFaceZip = async (
+  entries: DatasetEntry[],
+  settings: TaggingSettings,
+  options: DatasetExportOptions
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const names = assignFileNames(entries);
+  const lines: string[] = [];
+
+  entries.forEach(({ file, result }, index) => {
+    const { fileName } = names[index];
+    const tags = serializeAllTags(result, settings);
+    zip.file(`train/${fileName}`, file);
+    lines.push(JSON.stringify({
+      file_name: fileName,
+      text: buildCaption(result, settings, options.captionContent),
+      tags: tags.map(tag => tag.name),
+      scores: tags.map(tag => tag.score),
+      categories: tags.map(tag => tag.category),
+      sources: tags.map(tag => tag.source),
+      disputed: tags.map(tag => tag.disputed),
+      selected: tags.map(tag => tag.selected),
+      tagger_scores: tags.map(tag => tag.taggers ?? []),
+      natural_description: result.naturalDescription || '',
+    }));
+  });
+
+  zip.file('train/metadata.jsonl', lines.join('\n') + '\n');
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const buildMetadataExport = async (
+  format: MetadataFormat,
+  entries: DatasetEntry[],
+  settings: TaggingSettings,
+  options: DatasetExportOptions
+): Promise<{ blob: Blob; extension: string }> => {
+  switch (format) {
+    case 'jsonl':
+      return { blob: new Blob([buildResultsJsonl(entries, settings)], { type: 'application/jsonl' }), extension: 'jsonl' };
+    case 'csv':
+      return { blob: new Blob([buildResultsCsv(entries, settings)], { type: 'text/csv' }), extension: 'csv' };
+    case 'huggingface':
+      return { blob: await buildHuggingFaceZip(entries, settings, options), extension: 'zip' };
+  }
+};
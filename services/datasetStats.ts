@@ -0,0 +1,124 @@
+import { Tag, TagCategory } from '../types';
+import { getCategory } from './tagService';
+
+export interface TagFrequency {
+  name: string;
+  category: TagCategory;
+  count: number; // Images whose caption contains the tag
+  meanScore: number;
+}
+
+export interface CategoryCount {
+  tags: number; // Distinct tags
+  occurrences: number;
+}
+
+export interface DatasetStats {
+  imageCount: number;
+  frequencies: TagFrequency[]; // Most frequent first
+  categoryCounts: Partial<Record<TagCategory, CategoryCount>>;
+}
+
+export interface CoOccurrence {
+  name: string;
+  category: TagCategory;
+  count: number; // Images that have both tags
+  ratio: number; // Share of the images with the selected tag
+}
+
+/**
+ * Aggregates the tags of every image. Pass the processed tags so the numbers
+ * describe the captions that will be exported, not the raw tagger output.
+ */
+export const computeDatasetStats = (tagLists: Tag[][]): DatasetStats => {
+  const byName = new Map<string, { category: TagCategory; count: number; scoreSum: number }>();
+
+  tagLists.forEach(tags => {
+    tags.forEach(tag => {
+      const entry = byName.get(tag.name);
+      if (entry) {
+        entry.count++;
+        entry.scoreSum += tag.score;
+      } else {
+        byName.set(tag.name, { category: tag.category, count: 1, scoreSum: tag.score });
+      }
+    });
+  });
+
+  const frequencies: TagFrequency[] = [...byName.entries()]
+    .map(([name, { category, count, scoreSum }]) => ({ name, category, count, meanScore: scoreSum / count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+  const categoryCounts: Partial<Record<TagCategory, CategoryCount>> = {};
+  frequencies.forEach(({ category, count }) => {
+    const entry = categoryCounts[category] ?? { tags: 0, occurrences: 0 };
+    entry.tags++;
+    entry.occurrences += count;
+    categoryCounts[category] = entry;
+  });
+
+  return { imageCount: tagLists.length, frequencies, categoryCounts };
+};
+
+// The tags that most often appear alongside `name`
+export const getCoOccurrences = (tagLists: Tag[][], name: string, limit: number = 10): CoOccurrence[] => {
+  const withTag = tagLists.filter(tags => tags.some(tag => tag.name === name));
+  if (withTag.length === 0) return [];
+
+  const counts = new Map<string, { category: TagCategory; count: number }>();
+  withTag.forEach(tags => {
+    tags.forEach(tag => {
+      if (tag.name === name) return;
+      const entry = counts.get(tag.name);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(tag.name, { category: tag.category, count: 1 });
+      }
+    });
+  });
+
+  return [...counts.entries()]
+    .map(([other, { category, count }]) => ({ name: other, category, count, ratio: count / withTag.length }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
+
+// Tags seen in fewer than `minCount` images
+export const getRareTags = (stats: DatasetStats, minCount: number): string[] =>
+  stats.frequencies.filter(frequency => frequency.count < minCount).map(frequency => frequency.name);
+
+// Bulk edits work on the raw tags of one image, like the inline editor in the results view
+
+// Returns the same array when nothing matched, so untouched images are not rewritten
+export const removeTags = (tags: Tag[], names: Set<string>): Tag[] =>
+  tags.some(tag => names.has(tag.name)) ? tags.filter(tag => !names.has(tag.name)) : tags;
+
+/**
+ * Renames a tag, keeping its score and source so thresholds treat it like the
+ * original. When the image already has the new tag, the higher score wins.
+ */
+export const replaceTag = (tags: Tag[], from: string, to: { name: string; aliasOf?: string }): Tag[] => {
+  const original = tags.find(tag => tag.name === from);
+  if (!original || from === to.name) return tags;
+
+  const existing = tags.find(tag => tag.name === to.name);
+  const remaining = tags.filter(tag => tag.name !== from && tag.name !== to.name);
+  if (existing && (existing.source === 'manual' || (original.source !== 'manual' && existing.score >= original.score))) {
+    return [...remaining, existing];
+  }
+  return [
+    ...remaining,
+    { ...original, name: to.name, aliasOf: to.aliasOf, category: getCategory(to.name), taggers: undefined }
+  ];
+};
+
+// Pins the tag as manual, whether it is new or was hidden by the thresholds
+export const addTag = (tags: Tag[], tag: { name: string; aliasOf?: string }): Tag[] => {
+  const existing = tags.find(other => other.name === tag.name);
+  if (existing?.source === 'manual') return tags;
+  if (existing) {
+    return tags.map(other => other.name === tag.name ? { ...other, source: 'manual' } : other);
+  }
+  return [...tags, { name: tag.name, aliasOf: tag.aliasOf, score: 1, category: getCategory(tag.name), source: 'manual' }];
+};
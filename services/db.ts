@@ -0,0 +1,68 @@
+// Everything the app keeps beyond localStorage lives in this one database
+const DB_NAME = 'farterrogator';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'history';
+export const RESULT_CACHE_STORE = 'resultCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      // Each version only adds what the previous one lacked
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'hash' });
+          history.createIndex('updatedAt', 'updatedAt');
+        }
+        if (event.oldVersion < 2) {
+          const cache = db.createObjectStore(RESULT_CACHE_STORE, { keyPath: 'key' });
+          cache.createIndex('lastUsed', 'lastUsed');
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema; reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The database is open in an older tab of this app'));
+    });
+    // Let a later call retry after a failure (e.g. the blocked upgrade above)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs `work` in a single transaction and resolves with the value of the
+ * request it returns once the transaction has committed.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = work(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+};
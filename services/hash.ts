@@ -0,0 +1,40 @@
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// crypto.subtle only exists in secure contexts; plain-http LAN setups get a weaker hash
+const fallbackHash = (bytes: Uint8Array): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < bytes.length; i++) {
+    h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+    h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `cyrb-${(h2 >>> 0).toString(16).padStart(8, '0')}${(h1 >>> 0).toString(16).padStart(8, '0')}-${bytes.length}`;
+};
+
+/**
+ * SHA-256 of the given bytes as lowercase hex. Identifies images by content,
+ * so the same picture under another name maps to the same key.
+ */
+export const hashBytes = async (data: ArrayBuffer | Uint8Array): Promise<string> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (globalThis.crypto?.subtle) {
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+  }
+  return fallbackHash(bytes);
+};
+
+// Hashes the decoded bytes, so it matches hashBytes of the original file
+export const hashBase64 = (base64: string): Promise<string> => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return hashBytes(bytes);
+};
+
+// Digest of a string, for cache keys built from settings
+export const hashString = (text: string): Promise<string> => hashBytes(new TextEncoder().encode(text));
@@ -0,0 +1,138 @@
+import { BackendConfig, HistoryEntry, InterrogationResult, TaggingSettings } from '../types';
+import { HISTORY_STORE, withStore } from './db';
+import { hashBytes } from './hash';
+import { getProvider } from './providers/registry';
+import { normalizeTagName } from './tagService';
+
+const THUMBNAIL_SIZE = 256;
+// Oldest entries are dropped past this, thumbnails add up
+const HISTORY_LIMIT = 500;
+
+const hashCache = new WeakMap<File, Promise<string>>();
+
+/**
+ * Identifies an image by its content, so the same picture under another name
+ * (or picked again later) maps to the same history entry.
+ */
+export const hashImage = (file: File): Promise<string> => {
+  let hash = hashCache.get(file);
+  if (!hash) {
+    hash = file.arrayBuffer().then(hashBytes);
+    hashCache.set(file, hash);
+  }
+  return hash;
+};
+
+const createThumbnail = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    URL.revokeObjectURL(url);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error('Canvas is not available'));
+      return;
+    }
+    // JPEG has no alpha; transparent areas would turn black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    resolve(canvas.toDataURL('image/jpeg', 0.8));
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error(`Could not read ${file.name} for a thumbnail`));
+  };
+  img.src = url;
+});
+
+const getHistoryEntry = (hash: string): Promise<HistoryEntry | undefined> =>
+  withStore<HistoryEntry | undefined>(HISTORY_STORE, 'readonly', store => store.get(hash));
+
+/**
+ * Saves an interrogation under the image's hash, replacing an earlier run of
+ * the same image but keeping when it was first seen.
+ */
+export const saveHistoryEntry = async (
+  file: File,
+  result: InterrogationResult,
+  backendConfig: BackendConfig,
+  settings: TaggingSettings
+): Promise<HistoryEntry> => {
+  const [hash, thumbnail] = await Promise.all([hashImage(file), createThumbnail(file)]);
+  const existing = await getHistoryEntry(hash);
+  const now = Date.now();
+
+  const entry: HistoryEntry = {
+    hash,
+    fileName: file.name,
+    thumbnail,
+    result,
+    backend: backendConfig.type,
+    model: getProvider(backendConfig.type).getModelLabel(backendConfig),
+    settings,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+
+  await withStore(HISTORY_STORE, 'readwrite', store => {
+    const request = store.put(entry);
+    const count = store.count();
+    count.onsuccess = () => {
+      let excess = count.result - HISTORY_LIMIT;
+      if (excess <= 0) return;
+      // Oldest first
+      store.index('updatedAt').openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    };
+    return request;
+  });
+
+  return entry;
+};
+
+// Keeps the saved copy in step with tag edits and regenerated captions
+export const updateHistoryResult = async (hash: string, result: InterrogationResult): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', store => {
+    const request = store.get(hash);
+    request.onsuccess = () => {
+      const entry = request.result as HistoryEntry | undefined;
+      if (entry) store.put({ ...entry, result, updatedAt: Date.now() });
+    };
+  });
+};
+
+// Newest first
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(HISTORY_STORE, 'readonly', store => store.index('updatedAt').getAll());
+  return entries.reverse();
+};
+
+export const deleteHistoryEntry = (hash: string): Promise<void> =>
+  withStore(HISTORY_STORE, 'readwrite', store => { store.delete(hash); });
+
+export const clearHistory = (): Promise<void> =>
+  withStore(HISTORY_STORE, 'readwrite', store => { store.clear(); });
+
+/**
+ * Every comma-separated term has to match part of a tag name (or the file
+ * name), so "blue hair, smile" finds images that have both.
+ */
+export const matchesHistoryQuery = (entry: HistoryEntry, query: string): boolean => {
+  const terms = query.split(',').map(normalizeTagName).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const fileName = entry.fileName.toLowerCase();
+  return terms.every(term =>
+    entry.result.tags.some(tag => tag.name.includes(term)) || fileName.includes(term.replace(/_/g, ' ')) || fileName.includes(term)
+  );
+};
@@ -0,0 +1,402 @@
+import { EmbeddedMetadata } from '../types';
+import { canonicalizeTagName } from './tagService';
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+const latin1Decoder = new TextDecoder('latin1');
+
+// tEXt is latin-1 by spec, but A1111 / ComfyUI happily write UTF-8 into it
+const decodeText = (bytes: Uint8Array): string => {
+  try {
+    return utf8Decoder.decode(bytes);
+  } catch {
+    return latin1Decoder.decode(bytes);
+  }
+};
+
+const readAscii = (data: Uint8Array, offset: number, length: number): string => {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+};
+
+// zlib stream (PNG zTXt / compressed iTXt)
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readPngTextChunks = async (data: Uint8Array): Promise<Record<string, string>> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const entries: Record<string, string> = {};
+  let offset = 8; // Skip signature
+
+  while (offset + 12 <= data.length) {
+    const length = view.getUint32(offset, false);
+    const type = readAscii(data, offset + 4, 4);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === 'IEND') break;
+    if (type !== 'tEXt' && type !== 'zTXt' && type !== 'iTXt') continue;
+
+    const keywordEnd = body.indexOf(0);
+    if (keywordEnd <= 0) continue;
+    const keyword = latin1Decoder.decode(body.subarray(0, keywordEnd));
+
+    try {
+      if (type === 'tEXt') {
+        entries[keyword] = decodeText(body.subarray(keywordEnd + 1));
+      } else if (type === 'zTXt') {
+        // keyword \0 compression-method compressed-text
+        entries[keyword] = decodeText(await inflate(body.subarray(keywordEnd + 2)));
+      } else {
+        // keyword \0 compression-flag compression-method language \0 translated-keyword \0 text
+        const isCompressed = body[keywordEnd + 1] === 1;
+        const languageEnd = body.indexOf(0, keywordEnd + 3);
+        const translatedEnd = languageEnd >= 0 ? body.indexOf(0, languageEnd + 1) : -1;
+        if (translatedEnd < 0) continue;
+        const text = body.subarray(translatedEnd + 1);
+        entries[keyword] = decodeText(isCompressed ? await inflate(text) : text);
+      }
+    } catch (error) {
+      console.warn(`[MetadataReader] Could not decode ${type} chunk "${keyword}"`, error);
+    }
+  }
+
+  return entries;
+};
+
+// EXIF UserComment starts with an 8-byte character code
+const decodeUserComment = (bytes: Uint8Array, littleEndian: boolean): string => {
+  const header = readAscii(bytes, 0, 8).replace(/\0+$/, '');
+  const payload = bytes.subarray(8);
+
+  if (header === 'UNICODE') {
+    return new TextDecoder(littleEndian ? 'utf-16le' : 'utf-16be').decode(payload).replace(/\0+$/, '');
+  }
+  if (header === 'ASCII' || header === '') {
+    return decodeText(payload).replace(/\0+$/, '');
+  }
+  // Unknown encoding (e.g. JIS); best effort
+  return decodeText(bytes).replace(/\0+$/, '');
+};
+
+const EXIF_TEXT_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0131: 'Software',
+};
+
+/**
+ * Reads the text fields (ImageDescription, Make, Model, Software, UserComment) from a TIFF-structured EXIF block.
+ */
+const readExifText = (tiff: Uint8Array): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  if (tiff.length < 8) return entries;
+
+  const littleEndian = readAscii(tiff, 0, 2) === 'II';
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+
+  const readIfd = (ifdOffset: number, visited: Set<number>) => {
+    if (ifdOffset <= 0 || ifdOffset + 2 > tiff.length || visited.has(ifdOffset)) return;
+    visited.add(ifdOffset);
+
+    const count = view.getUint16(ifdOffset, littleEndian);
+    for (let i = 0; i < count; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      if (entry + 12 > tiff.length) return;
+
+      const tag = view.getUint16(entry, littleEndian);
+      const valueCount = view.getUint32(entry + 4, littleEndian);
+      // Values over 4 bytes live at an offset; smaller ones are stored inline
+      const valueOffset = valueCount > 4 ? view.getUint32(entry + 8, littleEndian) : entry + 8;
+      const value = tiff.subarray(valueOffset, valueOffset + valueCount);
+
+      if (tag === 0x8769) {
+        // Exif sub-IFD pointer
+        readIfd(view.getUint32(entry + 8, littleEndian), visited);
+      } else if (tag === 0x9286) {
+        entries.UserComment = decodeUserComment(value, littleEndian);
+      } else if (tag in EXIF_TEXT_TAGS) {
+        const text = decodeText(value).replace(/\0+$/, '');
+        // ComfyUI stores its graphs as `prompt:{...}` / `workflow:{...}` in Make / Model
+        const comfyMatch = text.match(/^(prompt|workflow):/);
+        if (comfyMatch) {
+          entries[comfyMatch[1]] = text.slice(comfyMatch[0].length);
+        } else {
+          entries[EXIF_TEXT_TAGS[tag]] = text;
+        }
+      }
+    }
+  };
+
+  readIfd(view.getUint32(4, littleEndian), new Set());
+  return entries;
+};
+
+const stripExifHeader = (data: Uint8Array): Uint8Array => {
+  return readAscii(data, 0, 6) === 'Exif\0\0' ? data.subarray(6) : data;
+};
+
+const readJpegText = (data: Uint8Array): Record<string, string> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let entries: Record<string, string> = {};
+  let offset = 2; // Skip SOI
+
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    // Start of scan / end of image: no more metadata segments
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = view.getUint16(offset + 2, false);
+    const segment = data.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe1 && readAscii(segment, 0, 6) === 'Exif\0\0') {
+      entries = { ...entries, ...readExifText(stripExifHeader(segment)) };
+    } else if (marker === 0xfe) {
+      entries.Comment = decodeText(segment);
+    }
+
+    offset += 2 + length;
+  }
+
+  return entries;
+};
+
+const readWebpText = (data: Uint8Array): Record<string, string> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let entries: Record<string, string> = {};
+  let offset = 12; // RIFF size WEBP
+
+  while (offset + 8 <= data.length) {
+    const type = readAscii(data, offset, 4);
+    const length = view.getUint32(offset + 4, true);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'EXIF') {
+      entries = { ...entries, ...readExifText(stripExifHeader(body)) };
+    }
+
+    // Chunks are padded to an even size
+    offset += 8 + length + (length % 2);
+  }
+
+  return entries;
+};
+
+/**
+ * Collects every text entry embedded in a PNG, JPEG or WebP file, keyed by chunk keyword / EXIF field.
+ */
+export const readEmbeddedText = async (file: Blob): Promise<Record<string, string>> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+
+  if (PNG_SIGNATURE.every((byte, i) => data[i] === byte)) {
+    return readPngTextChunks(data);
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return readJpegText(data);
+  }
+  if (readAscii(data, 0, 4) === 'RIFF' && readAscii(data, 8, 4) === 'WEBP') {
+    return readWebpText(data);
+  }
+  return {};
+};
+
+const tryParseJson = (text: string | undefined): unknown => {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Parses the A1111 infotext format:
+ *   prompt
+ *   Negative prompt: ...
+ *   Steps: 20, Sampler: Euler a, CFG scale: 7, Seed: 1, ...
+ */
+const parseA1111 = (text: string): Pick<EmbeddedMetadata, 'prompt' | 'negativePrompt' | 'parameters'> => {
+  const lines = text.trim().split('\n');
+  let paramIndex = -1;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (/^\s*Steps:/.test(lines[i])) {
+      paramIndex = i;
+      break;
+    }
+  }
+
+  const promptLines = paramIndex >= 0 ? lines.slice(0, paramIndex) : lines;
+  const negativeIndex = promptLines.findIndex(line => line.startsWith('Negative prompt:'));
+
+  const prompt = (negativeIndex >= 0 ? promptLines.slice(0, negativeIndex) : promptLines).join('\n').trim();
+  const negativePrompt = negativeIndex >= 0
+    ? promptLines.slice(negativeIndex).join('\n').replace(/^Negative prompt:\s*/, '').trim()
+    : undefined;
+
+  // Same pattern A1111 uses: `Key: value` pairs, values optionally quoted
+  const parameters: Record<string, string> = {};
+  if (paramIndex >= 0) {
+    const paramText = lines.slice(paramIndex).join(', ');
+    const pattern = /\s*([\w ]+):\s*("(?:\\.|[^\\"])+"|[^,]*)(?:,|$)/g;
+    for (const match of paramText.matchAll(pattern)) {
+      const value = match[2].trim();
+      // Quoted values are JSON strings; keep the raw text if one decodes to anything else
+      const decoded = value.startsWith('"') ? tryParseJson(value) : null;
+      parameters[match[1].trim()] = typeof decoded === 'string' ? decoded : value;
+    }
+  }
+
+  return { prompt, negativePrompt, parameters };
+};
+
+type ComfyNode = { class_type?: string; inputs?: Record<string, unknown> };
+
+/**
+ * Extracts prompts from ComfyUI's API-format `prompt` graph by following the sampler's
+ * positive / negative conditioning links back to their text encoders.
+ */
+const parseComfyPrompt = (graph: Record<string, ComfyNode>): Pick<EmbeddedMetadata, 'prompt' | 'negativePrompt' | 'parameters'> | null => {
+  const TEXT_INPUTS = ['text', 'text_g', 'text_l', 'prompt', 'string', 'value'];
+  const CONDITIONING_INPUTS = ['conditioning', 'conditioning_1', 'conditioning_2', 'conditioning_to', 'conditioning_from'];
+
+  const resolveText = (link: unknown, depth = 0): string[] => {
+    if (typeof link === 'string') return [link];
+    if (!Array.isArray(link) || depth > 16) return [];
+    const node = graph[String(link[0])];
+    if (!node?.inputs) return [];
+
+    for (const key of TEXT_INPUTS) {
+      if (key in node.inputs) {
+        const texts = resolveText(node.inputs[key], depth + 1);
+        if (texts.length > 0) return texts;
+      }
+    }
+    // Conditioning combine / concat / set-area nodes: collect from every upstream branch
+    return CONDITIONING_INPUTS.flatMap(key => key in node.inputs! ? resolveText(node.inputs![key], depth + 1) : []);
+  };
+
+  const nodes = Object.values(graph).filter(node => node && typeof node === 'object');
+  const sampler = nodes.find(node => node.inputs && 'positive' in node.inputs && /Sampler/i.test(node.class_type || ''));
+
+  let prompt = '';
+  let negativePrompt: string | undefined;
+  if (sampler?.inputs) {
+    prompt = resolveText(sampler.inputs.positive).join('\n');
+    negativePrompt = resolveText(sampler.inputs.negative).join('\n') || undefined;
+  }
+
+  if (!prompt) {
+    // Unusual graph: fall back to the first text encoder
+    const encoder = nodes.find(node => /CLIPTextEncode/.test(node.class_type || '') && typeof node.inputs?.text === 'string');
+    prompt = (encoder?.inputs?.text as string) || '';
+  }
+  if (!prompt) return null;
+
+  const parameters: Record<string, string> = {};
+  for (const [key, value] of Object.entries(sampler?.inputs || {})) {
+    if (typeof value === 'string' || typeof value === 'number') parameters[key] = String(value);
+  }
+  const checkpoint = nodes.find(node => typeof node.inputs?.ckpt_name === 'string');
+  if (checkpoint) parameters.ckpt_name = checkpoint.inputs!.ckpt_name as string;
+
+  return { prompt: prompt.trim(), negativePrompt: negativePrompt?.trim(), parameters };
+};
+
+// UI-format workflow only (no API graph): text encoders keep their text in widgets_values
+const parseComfyWorkflow = (workflow: { nodes?: { type?: string; title?: string; widgets_values?: unknown[] }[] }): Pick<EmbeddedMetadata, 'prompt' | 'negativePrompt' | 'parameters'> | null => {
+  const encoders = (workflow.nodes || []).filter(node => /CLIPTextEncode/.test(node.type || '') && typeof node.widgets_values?.[0] === 'string');
+  if (encoders.length === 0) return null;
+
+  const negative = encoders.find(node => /negative/i.test(node.title || ''));
+  const positive = encoders.find(node => node !== negative) || encoders[0];
+  return {
+    prompt: (positive.widgets_values![0] as string).trim(),
+    negativePrompt: negative ? (negative.widgets_values![0] as string).trim() : undefined,
+    parameters: {},
+  };
+};
+
+// NovelAI V4 nests its prompts as { caption: { base_caption } }
+const getBaseCaption = (prompt: unknown): string | undefined => {
+  const caption = isRecord(prompt) ? prompt.caption : undefined;
+  return isRecord(caption) && typeof caption.base_caption === 'string' ? caption.base_caption : undefined;
+};
+
+/**
+ * Identifies which generator wrote the metadata and extracts its prompt.
+ * Returns null when the file carries no recognizable generation metadata.
+ */
+export const parseEmbeddedMetadata = (rawText: Record<string, string>): EmbeddedMetadata | null => {
+  // NovelAI: JSON in Comment (PNG) or UserComment (JPEG / WebP) with prompt / uc
+  const naiComment = [tryParseJson(rawText.Comment), tryParseJson(rawText.UserComment)].find(isRecord);
+  if (naiComment && (typeof naiComment.prompt === 'string' || naiComment.v4_prompt)) {
+    const prompt = typeof naiComment.prompt === 'string' ? naiComment.prompt : getBaseCaption(naiComment.v4_prompt) || '';
+    const negativePrompt = typeof naiComment.uc === 'string' ? naiComment.uc : getBaseCaption(naiComment.v4_negative_prompt);
+    const parameters: Record<string, string> = {};
+    for (const [key, value] of Object.entries(naiComment)) {
+      if (key !== 'prompt' && key !== 'uc' && (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')) {
+        parameters[key] = String(value);
+      }
+    }
+    return { source: 'novelai', prompt: prompt.trim(), negativePrompt: negativePrompt?.trim(), parameters, rawText };
+  }
+
+  // ComfyUI: API graph in `prompt`, UI graph in `workflow`
+  const comfyGraph = tryParseJson(rawText.prompt);
+  const comfyWorkflow = tryParseJson(rawText.workflow);
+  const comfy = (isRecord(comfyGraph) && parseComfyPrompt(comfyGraph as Record<string, ComfyNode>))
+    || (isRecord(comfyWorkflow) && parseComfyWorkflow(comfyWorkflow));
+  if (comfy) {
+    return { source: 'comfyui', ...comfy, rawText };
+  }
+
+  // A1111 / Forge: `parameters` chunk in PNG, UserComment in JPEG / WebP
+  const infotext = rawText.parameters || rawText.UserComment || rawText.Comment;
+  if (infotext && infotext.trim() && !infotext.trim().startsWith('{')) {
+    return { source: 'a1111', ...parseA1111(infotext), rawText };
+  }
+
+  return null;
+};
+
+export const readImageMetadata = async (file: Blob): Promise<EmbeddedMetadata | null> => {
+  return parseEmbeddedMetadata(await readEmbeddedText(file));
+};
+
+/**
+ * Splits a generation prompt into canonical Danbooru tag names.
+ * Strips emphasis syntax ((tag:1.2), [tag], {tag}, NovelAI 1.5::tag::), LoRA calls and BREAK.
+ */
+export const extractPromptTags = (prompt: string): string[] => {
+  // Escaped parentheses belong to the tag itself (e.g. kafka_\(honkai:_star_rail\))
+  const cleaned = prompt
+    .replace(/\\\(/g, '\u0001')
+    .replace(/\\\)/g, '\u0002')
+    .replace(/<[^>]+>/g, ',')
+    .replace(/\bBREAK\b/g, ',');
+
+  const tags = new Set<string>();
+  for (const part of cleaned.split(/[,\n|]/)) {
+    let token = part
+      .replace(/-?\d+(\.\d+)?::/g, '') // NovelAI numeric emphasis prefix
+      .replace(/::/g, '')
+      .replace(/[()[\]{}]/g, '')
+      .replace(/:\s*-?\d+(\.\d+)?\s*$/, '') // A1111 weight suffix
+      .replace(/^\s*artist:/i, '')
+      .replace(/\u0001/g, '(')
+      .replace(/\u0002/g, ')')
+      .trim();
+
+    if (!token) continue;
+    token = canonicalizeTagName(token).name;
+    if (token) tags.add(token);
+  }
+
+  return Array.from(tags);
+};
@@ -0,0 +1,320 @@
+import type { InferenceSession, Tensor } from 'onnxruntime-web';
+import { BackendConfig, GenerateOptions, InterrogationResult, ProviderHealth, Tag, TagCategory, TaggingSettings } from '../types';
+import { CATEGORY_MAPPING, getCategory, parseCsvLine } from './tagService';
+import { finalizeTaggerTags, getScoreFloor } from './geminiService';
+import i18n from '../i18n/config';
+
+// WD taggers are trained on 448px squares; used when the model does not declare its input size
+const DEFAULT_INPUT_SIZE = 448;
+// Cache Storage bucket for downloaded models, so the tagger keeps working offline
+const MODEL_CACHE_NAME = 'onnx-tagger-models';
+
+interface TaggerLabel {
+  name: string;
+  category: TagCategory;
+}
+
+interface LoadedTagger {
+  session: InferenceSession;
+  labels: TaggerLabel[];
+  inputName: string;
+  inputSize: number;
+  createTensor: (pixels: Float32Array, size: number) => Tensor;
+}
+
+// --- LOCAL FILES ---
+
+// Files picked from disk cannot be saved with the config, so they live here for the session
+const localFiles: { model?: File; tags?: File } = {};
+
+export const setOnnxLocalFile = (kind: 'model' | 'tags', file: File | undefined) => {
+  localFiles[kind] = file;
+};
+
+export const getOnnxLocalFiles = (): { model?: File; tags?: File } => ({ ...localFiles });
+
+const getSourceName = (file: File | undefined, url: string): string => {
+  if (file) return file.name;
+  const path = url.split(/[?#]/)[0];
+  // Hugging Face URLs end in .../<repo>/resolve/<rev>/model.onnx; the repo name says more
+  const hfMatch = path.match(/\/([^/]+)\/resolve\//);
+  if (hfMatch) return hfMatch[1];
+  return path.split('/').filter(Boolean).pop() || url;
+};
+
+export const getOnnxModelLabel = (config: BackendConfig): string | null => {
+  if (!localFiles.model && !config.onnxModelUrl?.trim()) return null;
+  return getSourceName(localFiles.model, config.onnxModelUrl.trim());
+};
+
+export const hasOnnxModelSource = (config: BackendConfig): boolean => {
+  return !!localFiles.model || !!config.onnxModelUrl?.trim();
+};
+
+export const hasOnnxTagsSource = (config: BackendConfig): boolean => {
+  return !!localFiles.tags || !!config.onnxTagsUrl?.trim();
+};
+
+// --- LOADING ---
+
+const readWithProgress = async (response: Response, onPercent?: (percent: number) => void): Promise<ArrayBuffer> => {
+  const total = Number(response.headers.get('content-length')) || 0;
+  if (!response.body || !total || !onPercent) return response.arrayBuffer();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    // Compressed responses can report a smaller length than the decoded body
+    onPercent(Math.min(100, Math.round((received / total) * 100)));
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes.buffer;
+};
+
+const openModelCache = async (): Promise<Cache | null> => {
+  // Cache Storage only exists in secure contexts (https or localhost)
+  if (typeof caches === 'undefined') return null;
+  try {
+    return await caches.open(MODEL_CACHE_NAME);
+  } catch {
+    return null;
+  }
+};
+
+const readSource = async (file: File | undefined, url: string, onPercent?: (percent: number) => void): Promise<ArrayBuffer> => {
+  if (file) return file.arrayBuffer();
+
+  const cache = await openModelCache();
+  const cached = await cache?.match(url);
+  if (cached) return cached.arrayBuffer();
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`ONNX Tagger Error: ${response.status} ${response.statusText} (${url})`);
+  }
+  const bytes = await readWithProgress(response, onPercent);
+
+  try {
+    await cache?.put(url, new Response(bytes));
+  } catch (e) {
+    // Usually the storage quota; the model still works, it just downloads again next time
+    console.warn("Could not cache ONNX tagger file", e);
+  }
+  return bytes;
+};
+
+// Reads selected_tags.csv (tag_id,name,category,count)
+const parseSelectedTags = (csv: string): TaggerLabel[] => {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '');
+  const header = parseCsvLine(lines[0] || '').map(column => column.trim());
+  const nameIndex = header.indexOf('name');
+  const categoryIndex = header.indexOf('category');
+  if (nameIndex === -1) {
+    throw new Error('ONNX Tagger Error: selected_tags.csv has no "name" column.');
+  }
+
+  return lines.slice(1).map(line => {
+    const columns = parseCsvLine(line);
+    const name = columns[nameIndex];
+    const categoryId = parseInt(columns[categoryIndex], 10);
+    return { name, category: CATEGORY_MAPPING[categoryId] ?? getCategory(name) };
+  });
+};
+
+// Identifies the model and tags files, down to the size and date of ones picked from disk
+export const getOnnxSourceKey = (config: BackendConfig): string => {
+  const describe = (file: File | undefined, url: string) =>
+    file ? `file:${file.name}:${file.size}:${file.lastModified}` : `url:${url.trim()}`;
+  return `${describe(localFiles.model, config.onnxModelUrl)}|${describe(localFiles.tags, config.onnxTagsUrl)}`;
+};
+
+const loadTagger = async (config: BackendConfig, onPercent?: (percent: number) => void): Promise<LoadedTagger> => {
+  if (!hasOnnxModelSource(config) || !hasOnnxTagsSource(config)) {
+    throw new Error("ONNX Tagger model or selected_tags.csv is missing.");
+  }
+
+  // ONNX Runtime is large; only pull it in when this backend is actually used
+  const ort = await import('onnxruntime-web/wasm');
+  // Threads need SharedArrayBuffer, which browsers only allow on cross-origin isolated pages
+  ort.env.wasm.numThreads = globalThis.crossOriginIsolated ? Math.min(4, navigator.hardwareConcurrency || 1) : 1;
+
+  const [modelBytes, tagsBytes] = await Promise.all([
+    readSource(localFiles.model, config.onnxModelUrl.trim(), onPercent),
+    readSource(localFiles.tags, config.onnxTagsUrl.trim())
+  ]);
+  const labels = parseSelectedTags(new TextDecoder().decode(tagsBytes));
+
+  const session = await ort.InferenceSession.create(new Uint8Array(modelBytes), {
+    executionProviders: ['wasm'],
+    graphOptimizationLevel: 'all'
+  });
+
+  // WD models take NHWC input: [batch, height, width, 3]
+  const input = session.inputMetadata[0];
+  const height = input?.isTensor ? input.shape[1] : undefined;
+  const inputSize = typeof height === 'number' && height > 0 ? height : DEFAULT_INPUT_SIZE;
+
+  return {
+    session,
+    labels,
+    inputName: session.inputNames[0],
+    inputSize,
+    createTensor: (pixels, size) => new ort.Tensor('float32', pixels, [1, size, size, 3])
+  };
+};
+
+let taggerPromise: Promise<LoadedTagger> | null = null;
+let taggerKey = '';
+
+// One session at a time; batch workers share it and changing the source reloads it
+const getTagger = (config: BackendConfig, onPercent?: (percent: number) => void): Promise<LoadedTagger> => {
+  const key = getOnnxSourceKey(config);
+  if (!taggerPromise || taggerKey !== key) {
+    const previous = taggerPromise;
+    taggerKey = key;
+    taggerPromise = loadTagger(config, onPercent).catch(error => {
+      // Let the next call retry instead of caching the failure
+      if (taggerKey === key) taggerPromise = null;
+      throw error;
+    });
+    previous?.then(tagger => tagger.session.release()).catch(() => {});
+  }
+  return taggerPromise;
+};
+
+// The WASM backend cannot run the same session twice at once, so runs are queued
+let runQueue: Promise<unknown> = Promise.resolve();
+
+const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = runQueue.then(task, task);
+  runQueue = run.catch(() => {});
+  return run;
+};
+
+// --- INFERENCE ---
+
+const base64ToBlob = (base64Image: string, mimeType: string): Blob => {
+  const byteCharacters = atob(base64Image);
+  const bytes = new Uint8Array(byteCharacters.length);
+  for (let i = 0; i < byteCharacters.length; i++) {
+    bytes[i] = byteCharacters.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Same preprocessing as the reference WD tagger: flatten alpha onto white,
+ * pad to a centered square, resize to the model size and feed BGR 0-255 floats.
+ */
+const preprocessImage = async (base64Image: string, mimeType: string, size: number): Promise<Float32Array> => {
+  const bitmap = await createImageBitmap(base64ToBlob(base64Image, mimeType));
+
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(size, size)
+    : Object.assign(document.createElement('canvas'), { width: size, height: size });
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    bitmap.close();
+    throw new Error("ONNX Tagger Error: canvas 2D context is unavailable.");
+  }
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+
+  // Padding then resizing equals scaling the long side to `size` and centering
+  const scale = size / Math.max(bitmap.width, bitmap.height);
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, Math.floor((size - width) / 2), Math.floor((size - height) / 2), width, height);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const pixels = new Float32Array(size * size * 3);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+    pixels[j] = data[i + 2];
+    pixels[j + 1] = data[i + 1];
+    pixels[j + 2] = data[i];
+  }
+  return pixels;
+};
+
+const scoresToTags = (scores: ArrayLike<number>, labels: TaggerLabel[], settings?: TaggingSettings): Tag[] => {
+  if (scores.length !== labels.length) {
+    throw new Error(`ONNX Tagger Error: the model returns ${scores.length} scores but selected_tags.csv lists ${labels.length} tags.`);
+  }
+
+  // Keep everything above the floor; the per-category thresholds are applied on display
+  const threshold = getScoreFloor(settings);
+  const tags: Tag[] = [];
+  let rating: Tag | null = null;
+
+  for (let i = 0; i < labels.length; i++) {
+    const { name, category } = labels[i];
+    const score = scores[i];
+    if (category === 'rating') {
+      // Ratings are mutually exclusive; keep only the most likely one
+      if (!rating || score > rating.score) rating = { name, score, category };
+    } else if (score >= threshold) {
+      tags.push({ name, score, category });
+    }
+  }
+
+  if (rating) tags.push(rating);
+  return finalizeTaggerTags(tags, settings);
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+};
+
+export const generateTagsOnnx = async (
+  base64Image: string,
+  mimeType: string,
+  config: BackendConfig,
+  settings?: TaggingSettings,
+  onProgress?: (status: string, progress: number) => void,
+  options: GenerateOptions = {}
+): Promise<InterrogationResult> => {
+  const { signal } = options;
+
+  onProgress?.(i18n.t('status.loadingTaggerModel'), 10);
+  const tagger = await getTagger(config, (percent) => {
+    // Downloading fills the 10-50 span of the overall progress
+    onProgress?.(i18n.t('status.downloadingModel', { percent }), 10 + percent * 0.4);
+  });
+  throwIfAborted(signal);
+
+  onProgress?.(i18n.t('status.runningBrowserTagger'), 60);
+  const tags = await runExclusive(async () => {
+    throwIfAborted(signal);
+    const pixels = await preprocessImage(base64Image, mimeType, tagger.inputSize);
+    const outputs = await tagger.session.run({ [tagger.inputName]: tagger.createTensor(pixels, tagger.inputSize) });
+    const scores = outputs[tagger.session.outputNames[0]].data as Float32Array;
+    return scoresToTags(scores, tagger.labels, settings);
+  });
+
+  onProgress?.(i18n.t('status.finalizing'), 100);
+  return { tags, scoreFloor: getScoreFloor(settings) };
+};
+
+export const checkOnnxHealth = async (config: BackendConfig): Promise<ProviderHealth> => {
+  try {
+    const tagger = await getTagger(config);
+    return { ok: true, detail: `${tagger.labels.length} tags, ${tagger.inputSize}px` };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
@@ -1,121 +1,536 @@
+import { EmbedProfile } from '../types';
 
-export const embedPngMetadata = async (file: File, prompt: string): Promise<Blob> => {
-  // Always process image to resize to ~1MP and strip original metadata
-  const pngBlob = await processImage(file);
+export interface EmbedContent {
+  prompt: string; // Comma-joined tag string
+  negativePrompt?: string;
+  description?: string; // Natural language caption, used by the XMP profile
+  tags?: string[]; // Individual tags, used for XMP dc:subject
+}
+
+export const EMBED_PROFILE_LABELS: Record<EmbedProfile, string> = {
+  novelai: 'NovelAI',
+  a1111: 'A1111',
+  comfyui: 'ComfyUI',
+  xmp: 'XMP',
+};
+
+// CRC32 implementation
+const crcTable = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    if (c & 1) {
+      c = 0xedb88320 ^ (c >>> 1);
+    } else {
+      c = c >>> 1;
+    }
+  }
+  crcTable[n] = c;
+}
+
+const crc32 = (buf: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) {
+    crc = crcTable[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc ^ 0xffffffff;
+};
+
+const textEncoder = new TextEncoder();
+
+// Helper to create a chunk
+const createChunk = (type: string, data: Uint8Array) => {
+  const length = data.length;
+  const buffer = new Uint8Array(4 + 4 + length + 4);
+  const view = new DataView(buffer.buffer);
+
+  view.setUint32(0, length, false);
+  for (let i = 0; i < 4; i++) {
+    buffer[4 + i] = type.charCodeAt(i);
+  }
+  buffer.set(data, 8);
+
+  // CRC calculation
+  const crc = crc32(buffer.subarray(4, 4 + 4 + length));
+  view.setUint32(8 + length, crc, false);
+
+  return buffer;
+};
+
+const createTextChunk = (keyword: string, text: string) => {
+  const keywordBytes = textEncoder.encode(keyword);
+  const textBytes = textEncoder.encode(text);
+  const data = new Uint8Array(keywordBytes.length + 1 + textBytes.length);
+  data.set(keywordBytes, 0);
+  data[keywordBytes.length] = 0; // Null separator
+  data.set(textBytes, keywordBytes.length + 1);
+  return createChunk('tEXt', data);
+};
+
+// iTXt is the spec-compliant place for UTF-8 text (required for XMP)
+const createInternationalTextChunk = (keyword: string, text: string) => {
+  const keywordBytes = textEncoder.encode(keyword);
+  const textBytes = textEncoder.encode(text);
+  // keyword \0 compression-flag compression-method language \0 translated-keyword \0 text
+  const data = new Uint8Array(keywordBytes.length + 5 + textBytes.length);
+  data.set(keywordBytes, 0);
+  data.set(textBytes, keywordBytes.length + 5);
+  return createChunk('iTXt', data);
+};
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+const escapeXml = (text: string) => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+/**
+ * Full NovelAI Comment schema (V4 layout, which also carries the legacy prompt / uc fields).
+ * Sampler settings are NovelAI's defaults since we never generated the image ourselves.
+ */
+const buildNovelAiComment = (content: EmbedContent, width: number, height: number) => {
+  const negativePrompt = content.negativePrompt || '';
+  return {
+    prompt: content.prompt,
+    steps: 28,
+    height,
+    width,
+    scale: 5,
+    uncond_scale: 0,
+    cfg_rescale: 0,
+    seed: randomSeed(),
+    n_samples: 1,
+    noise_schedule: 'karras',
+    sampler: 'k_euler_ancestral',
+    sm: false,
+    sm_dyn: false,
+    legacy_v3_extend: false,
+    uc: negativePrompt,
+    request_type: 'PromptGenerateRequest',
+    v4_prompt: {
+      caption: { base_caption: content.prompt, char_captions: [] },
+      use_coords: false,
+      use_order: true,
+    },
+    v4_negative_prompt: {
+      caption: { base_caption: negativePrompt, char_captions: [] },
+      legacy_uc: false,
+    },
+  };
+};
+
+// A1111 infotext: prompt, negative prompt, then the settings line
+export const buildA1111Parameters = (content: EmbedContent, width: number, height: number): string => {
+  const lines = [content.prompt];
+  if (content.negativePrompt) {
+    lines.push(`Negative prompt: ${content.negativePrompt}`);
+  }
+  lines.push(`Steps: 28, Sampler: Euler a, Schedule type: Automatic, CFG scale: 5, Seed: ${randomSeed()}, Size: ${width}x${height}`);
+  return lines.join('\n');
+};
+
+/**
+ * ComfyUI API-format graph (checkpoint -> text encoders -> sampler -> save).
+ * ComfyUI rebuilds a workflow from `prompt` when no UI `workflow` chunk is present.
+ */
+const buildComfyPrompt = (content: EmbedContent, width: number, height: number) => ({
+  '3': {
+    class_type: 'KSampler',
+    inputs: {
+      seed: randomSeed(),
+      steps: 28,
+      cfg: 5,
+      sampler_name: 'euler_ancestral',
+      scheduler: 'karras',
+      denoise: 1,
+      model: ['4', 0],
+      positive: ['6', 0],
+      negative: ['7', 0],
+      latent_image: ['5', 0],
+    },
+  },
+  '4': { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: 'model.safetensors' } },
+  '5': { class_type: 'EmptyLatentImage', inputs: { width, height, batch_size: 1 } },
+  '6': { class_type: 'CLIPTextEncode', inputs: { text: content.prompt, clip: ['4', 1] } },
+  '7': { class_type: 'CLIPTextEncode', inputs: { text: content.negativePrompt || '', clip: ['4', 1] } },
+  '8': { class_type: 'VAEDecode', inputs: { samples: ['3', 0], vae: ['4', 2] } },
+  '9': { class_type: 'SaveImage', inputs: { filename_prefix: 'ComfyUI', images: ['8', 0] } },
+});
+
+// Neutral XMP packet readable by Lightroom, digiKam, exiftool, etc.
+export const buildXmpPacket = (content: EmbedContent): string => {
+  const description = content.description || content.prompt;
+  const subjects = (content.tags || []).map(tag => `<rdf:li>${escapeXml(tag)}</rdf:li>`).join('');
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(description)}</rdf:li></rdf:Alt></dc:description>`,
+    `<dc:subject><rdf:Bag>${subjects}</rdf:Bag></dc:subject>`,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('');
+};
+
+const buildMetadataChunks = (profile: EmbedProfile, content: EmbedContent, width: number, height: number): Uint8Array[] => {
+  switch (profile) {
+    case 'a1111':
+      return [createTextChunk('parameters', buildA1111Parameters(content, width, height))];
+    case 'comfyui':
+      return [createTextChunk('prompt', JSON.stringify(buildComfyPrompt(content, width, height)))];
+    case 'xmp':
+      return [createInternationalTextChunk('XML:com.adobe.xmp', buildXmpPacket(content))];
+    case 'novelai':
+    default:
+      return [
+        createTextChunk('Title', 'NovelAI generated image'),
+        createTextChunk('Description', content.prompt),
+        createTextChunk('Software', 'NovelAI'),
+        createTextChunk('Source', 'NovelAI Diffusion V4.5'),
+        createTextChunk('Comment', JSON.stringify(buildNovelAiComment(content, width, height))),
+      ];
+  }
+};
+
+// Generator keywords replaced on embed so UIs never pick up a stale prompt from the source file
+const PNG_METADATA_KEYWORDS = new Set(['parameters', 'prompt', 'workflow', 'Comment', 'Description', 'Title', 'Software', 'Source', 'XML:com.adobe.xmp']);
 
-  const arrayBuffer = await pngBlob.arrayBuffer();
-  const data = new Uint8Array(arrayBuffer);
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const totalLength = parts.reduce((acc, part) => acc + part.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const readAscii = (data: Uint8Array, offset: number, length: number) => {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+};
 
+/**
+ * Inserts metadata chunks after IHDR of an existing PNG byte stream.
+ * Image data and every other chunk (ICC profile, pHYs, ...) are copied untouched.
+ */
+const injectPngChunks = (data: Uint8Array, profile: EmbedProfile, content: EmbedContent): Uint8Array => {
   // Check for PNG signature
-  const signature = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
   for (let i = 0; i < 8; i++) {
-    if (data[i] !== signature[i]) {
+    if (data[i] !== PNG_SIGNATURE[i]) {
       throw new Error('Failed to process PNG data');
     }
   }
 
-  const chunks: Uint8Array[] = [];
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const chunks: Uint8Array[] = [data.subarray(0, 8)]; // Signature
   let offset = 8; // Skip signature
 
-  // Helper to create a chunk
-  const createChunk = (type: string, data: Uint8Array) => {
-    const length = data.length;
-    const buffer = new Uint8Array(4 + 4 + length + 4);
-    const view = new DataView(buffer.buffer);
+  while (offset < data.length) {
+    const length = view.getUint32(offset, false);
+    const type = readAscii(data, offset + 4, 4);
+    const chunkTotalLength = length + 12;
+    const chunkData = data.subarray(offset, offset + chunkTotalLength);
+    offset += chunkTotalLength;
 
-    view.setUint32(0, length, false);
-    for (let i = 0; i < 4; i++) {
-      buffer[4 + i] = type.charCodeAt(i);
+    if (type === 'tEXt' || type === 'iTXt' || type === 'zTXt') {
+      const keywordEnd = chunkData.indexOf(0, 8);
+      if (PNG_METADATA_KEYWORDS.has(readAscii(chunkData, 8, keywordEnd - 8))) continue;
     }
-    buffer.set(data, 8);
 
-    // CRC calculation
-    const crc = crc32(buffer.subarray(4, 4 + 4 + length));
-    view.setUint32(8 + length, crc, false);
+    chunks.push(chunkData);
 
-    return buffer;
-  };
+    if (type === 'IHDR') {
+      // IHDR data starts with width / height (big-endian)
+      const width = view.getUint32(offset - chunkTotalLength + 8, false);
+      const height = view.getUint32(offset - chunkTotalLength + 12, false);
+      // Insert metadata after IHDR
+      chunks.push(...buildMetadataChunks(profile, content, width, height));
+    }
+  }
+
+  return concatBytes(chunks);
+};
+
+interface ExifField {
+  tag: number;
+  type: 2 | 7; // ASCII | UNDEFINED
+  value: Uint8Array;
+}
 
-  // CRC32 implementation
-  const crcTable = new Uint32Array(256);
-  for (let n = 0; n < 256; n++) {
-    let c = n;
-    for (let k = 0; k < 8; k++) {
-      if (c & 1) {
-        c = 0xedb88320 ^ (c >>> 1);
+const asciiField = (tag: number, text: string): ExifField => ({
+  tag,
+  type: 2,
+  value: concatBytes([textEncoder.encode(text), new Uint8Array([0])]),
+});
+
+// UserComment: 8-byte charset header, then UTF-16 (big-endian, matching our 'MM' TIFF header)
+const userCommentField = (text: string): ExifField => {
+  const value = new Uint8Array(8 + text.length * 2);
+  value.set(textEncoder.encode('UNICODE\0'), 0);
+  const view = new DataView(value.buffer);
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(8 + i * 2, text.charCodeAt(i), false);
+  }
+  return { tag: 0x9286, type: 7, value };
+};
+
+/**
+ * Builds a big-endian TIFF block with IFD0 fields and an Exif sub-IFD.
+ */
+const buildExifTiff = (ifd0Fields: ExifField[], exifFields: ExifField[]): Uint8Array => {
+  const valuesSize = (fields: ExifField[]) => fields.reduce((acc, field) => {
+    return acc + (field.value.length > 4 ? field.value.length + (field.value.length % 2) : 0);
+  }, 0);
+
+  const ifd0Count = ifd0Fields.length + (exifFields.length > 0 ? 1 : 0);
+  const ifd0Offset = 8;
+  const ifd0ValuesOffset = ifd0Offset + 2 + ifd0Count * 12 + 4;
+  const exifIfdOffset = ifd0ValuesOffset + valuesSize(ifd0Fields);
+  const exifValuesOffset = exifIfdOffset + 2 + exifFields.length * 12 + 4;
+  const totalLength = exifFields.length > 0 ? exifValuesOffset + valuesSize(exifFields) : exifIfdOffset;
+
+  const buffer = new Uint8Array(totalLength);
+  const view = new DataView(buffer.buffer);
+  buffer.set([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]); // 'MM', 42, IFD0 at 8
+
+  const writeIfd = (offset: number, valuesOffset: number, fields: ExifField[], exifPointer?: number) => {
+    const entries: (ExifField | { tag: number; type: 4; pointer: number })[] = [...fields];
+    if (exifPointer !== undefined) entries.push({ tag: 0x8769, type: 4, pointer: exifPointer });
+    entries.sort((a, b) => a.tag - b.tag);
+
+    view.setUint16(offset, entries.length, false);
+    let entryOffset = offset + 2;
+    let valueOffset = valuesOffset;
+    for (const entry of entries) {
+      view.setUint16(entryOffset, entry.tag, false);
+      view.setUint16(entryOffset + 2, entry.type, false);
+      if ('pointer' in entry) {
+        view.setUint32(entryOffset + 4, 1, false);
+        view.setUint32(entryOffset + 8, entry.pointer, false);
       } else {
-        c = c >>> 1;
+        view.setUint32(entryOffset + 4, entry.value.length, false);
+        if (entry.value.length <= 4) {
+          buffer.set(entry.value, entryOffset + 8);
+        } else {
+          view.setUint32(entryOffset + 8, valueOffset, false);
+          buffer.set(entry.value, valueOffset);
+          valueOffset += entry.value.length + (entry.value.length % 2);
+        }
       }
+      entryOffset += 12;
     }
-    crcTable[n] = c;
+    view.setUint32(entryOffset, 0, false); // No next IFD
+  };
+
+  writeIfd(ifd0Offset, ifd0ValuesOffset, ifd0Fields, exifFields.length > 0 ? exifIfdOffset : undefined);
+  if (exifFields.length > 0) {
+    writeIfd(exifIfdOffset, exifValuesOffset, exifFields);
   }
+  return buffer;
+};
 
-  const crc32 = (buf: Uint8Array) => {
-    let crc = 0xffffffff;
-    for (let i = 0; i < buf.length; i++) {
-      crc = crcTable[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+/**
+ * EXIF layout per profile for JPEG / WebP, mirroring what each UI reads:
+ * A1111 and NovelAI use UserComment, ComfyUI stores `prompt:` in the Make field.
+ */
+const buildExifForProfile = (profile: EmbedProfile, content: EmbedContent, width: number, height: number): Uint8Array | null => {
+  switch (profile) {
+    case 'a1111':
+      return buildExifTiff([], [userCommentField(buildA1111Parameters(content, width, height))]);
+    case 'novelai':
+      return buildExifTiff(
+        [asciiField(0x010e, content.prompt), asciiField(0x0131, 'NovelAI')],
+        [userCommentField(JSON.stringify(buildNovelAiComment(content, width, height)))]
+      );
+    case 'comfyui':
+      return buildExifTiff([asciiField(0x010f, `prompt:${JSON.stringify(buildComfyPrompt(content, width, height))}`)], []);
+    case 'xmp':
+    default:
+      return null;
+  }
+};
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+
+const createJpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+  // Segment length includes its own two bytes and is capped at 0xFFFF
+  if (payload.length + 2 > 0xffff) {
+    throw new Error('Metadata is too large for a JPEG segment');
+  }
+  const segment = new Uint8Array(4 + payload.length);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  new DataView(segment.buffer).setUint16(2, payload.length + 2, false);
+  segment.set(payload, 4);
+  return segment;
+};
+
+/**
+ * Inserts EXIF / XMP APP1 segments into an existing JPEG without re-encoding.
+ * Existing segments of the kind being written are replaced; everything else is kept.
+ */
+const injectJpegSegments = (data: Uint8Array, exif: Uint8Array | null, xmp: string | null): Uint8Array => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const leading: Uint8Array[] = []; // APP0 (JFIF) must stay first
+  const kept: Uint8Array[] = [];
+  let offset = 2; // Skip SOI
+
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    // Start of scan: the rest is entropy-coded image data
+    if (marker === 0xda) break;
+
+    const length = view.getUint16(offset + 2, false);
+    const segment = data.subarray(offset, offset + 2 + length);
+    offset += 2 + length;
+
+    const isExif = marker === 0xe1 && readAscii(segment, 4, 6) === 'Exif\0\0';
+    const isXmp = marker === 0xe1 && readAscii(segment, 4, XMP_NAMESPACE.length) === XMP_NAMESPACE;
+    if ((isExif && exif) || (isXmp && xmp)) continue;
+
+    if (marker === 0xe0 && kept.length === 0) {
+      leading.push(segment);
+    } else {
+      kept.push(segment);
     }
-    return crc ^ 0xffffffff;
-  };
+  }
 
-  // Create metadata chunks
-  const textEncoder = new TextEncoder();
-  
-  const createTextChunk = (keyword: string, text: string) => {
-    const keywordBytes = textEncoder.encode(keyword);
-    const textBytes = textEncoder.encode(text);
-    const data = new Uint8Array(keywordBytes.length + 1 + textBytes.length);
-    data.set(keywordBytes, 0);
-    data[keywordBytes.length] = 0; // Null separator
-    data.set(textBytes, keywordBytes.length + 1);
-    return createChunk('tEXt', data);
-  };
+  const inserted: Uint8Array[] = [];
+  if (exif) inserted.push(createJpegSegment(0xe1, concatBytes([textEncoder.encode('Exif\0\0'), exif])));
+  if (xmp) inserted.push(createJpegSegment(0xe1, textEncoder.encode(XMP_NAMESPACE + xmp)));
 
-  // NAI Metadata - Minimal set
-  const metadataChunks = [
-    createTextChunk('Software', 'NovelAI'),
-    createTextChunk('Source', 'NovelAI'),
-    createTextChunk('Description', prompt),
-    createTextChunk('Comment', JSON.stringify({
-      prompt: prompt
-    }))
-  ];
+  return concatBytes([data.subarray(0, 2), ...leading, ...inserted, ...kept, data.subarray(offset)]);
+};
 
-  // Reconstruct file with new chunks inserted after IHDR
-  chunks.push(data.slice(0, 8)); // Signature
+const createRiffChunk = (type: string, payload: Uint8Array): Uint8Array => {
+  // Chunks are padded to an even size
+  const chunk = new Uint8Array(8 + payload.length + (payload.length % 2));
+  chunk.set(textEncoder.encode(type), 0);
+  new DataView(chunk.buffer).setUint32(4, payload.length, true);
+  chunk.set(payload, 8);
+  return chunk;
+};
 
-  while (offset < data.length) {
-    const view = new DataView(data.buffer);
-    const length = view.getUint32(offset, false);
-    const type = String.fromCharCode(
-      data[offset + 4],
-      data[offset + 5],
-      data[offset + 6],
-      data[offset + 7]
-    );
+/**
+ * Adds EXIF / XMP chunks to an existing WebP. Simple (VP8 / VP8L) files are promoted
+ * to the extended format with a VP8X header, as the container spec requires for metadata.
+ */
+const injectWebpChunks = (data: Uint8Array, exif: Uint8Array | null, xmp: string | null): Uint8Array => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const chunks: { type: string; payload: Uint8Array }[] = [];
+  let offset = 12; // RIFF size WEBP
 
-    const chunkTotalLength = length + 12;
-    const chunkData = data.slice(offset, offset + chunkTotalLength);
-    
-    chunks.push(chunkData);
-    offset += chunkTotalLength;
+  while (offset + 8 <= data.length) {
+    const type = readAscii(data, offset, 4);
+    const length = view.getUint32(offset + 4, true);
+    const payload = data.subarray(offset + 8, offset + 8 + length);
+    offset += 8 + length + (length % 2);
 
-    if (type === 'IHDR') {
-      // Insert metadata after IHDR
-      chunks.push(...metadataChunks);
+    if ((type === 'EXIF' && exif) || (type === 'XMP ' && xmp)) continue;
+    chunks.push({ type, payload });
+  }
+
+  let header = chunks.find(chunk => chunk.type === 'VP8X');
+  if (!header) {
+    const bitstream = chunks.find(chunk => chunk.type === 'VP8 ' || chunk.type === 'VP8L');
+    if (!bitstream) throw new Error('Unsupported WebP file');
+
+    let width: number;
+    let height: number;
+    let flags = 0;
+    const bits = bitstream.payload;
+    if (bitstream.type === 'VP8L') {
+      // 1-byte signature, then 14-bit width-1, 14-bit height-1, 1-bit alpha hint
+      const packed = (bits[1] | (bits[2] << 8) | (bits[3] << 16) | (bits[4] << 24)) >>> 0;
+      width = (packed & 0x3fff) + 1;
+      height = ((packed >>> 14) & 0x3fff) + 1;
+      if ((packed >>> 28) & 1) flags |= 0x10;
+    } else {
+      // 3-byte frame tag, 3-byte start code, then 14-bit width / height
+      width = (bits[6] | (bits[7] << 8)) & 0x3fff;
+      height = (bits[8] | (bits[9] << 8)) & 0x3fff;
     }
+
+    const payload = new Uint8Array(10);
+    payload[0] = flags;
+    // Canvas size is stored minus one, 24-bit little-endian
+    payload.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+    payload.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+    header = { type: 'VP8X', payload };
+    chunks.unshift(header);
+  } else {
+    header.payload = header.payload.slice();
   }
 
-  // Combine all chunks
-  const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-  const resultBuffer = new Uint8Array(totalLength);
-  let resultOffset = 0;
-  for (const chunk of chunks) {
-    resultBuffer.set(chunk, resultOffset);
-    resultOffset += chunk.length;
+  if (exif) header.payload[0] |= 0x08;
+  if (xmp) header.payload[0] |= 0x04;
+
+  const body = [
+    textEncoder.encode('WEBP'),
+    ...chunks.map(chunk => createRiffChunk(chunk.type, chunk.payload)),
+    ...(exif ? [createRiffChunk('EXIF', exif)] : []),
+    ...(xmp ? [createRiffChunk('XMP ', textEncoder.encode(xmp))] : []),
+  ];
+  const riffHeader = new Uint8Array(8);
+  riffHeader.set(textEncoder.encode('RIFF'), 0);
+  new DataView(riffHeader.buffer).setUint32(4, body.reduce((acc, part) => acc + part.length, 0), true);
+
+  return concatBytes([riffHeader, ...body]);
+};
+
+export interface EmbedOptions {
+  resizeTo1MP?: boolean; // Re-encode as a ~1MP PNG (never upscales) instead of keeping the original file
+}
+
+const getImageSize = async (file: Blob): Promise<{ width: number; height: number }> => {
+  const bitmap = await createImageBitmap(file);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+};
+
+/**
+ * Embeds tags into an image using the selected profile.
+ * By default the original bytes are kept: PNG gets text chunks, JPEG / WebP get EXIF or XMP.
+ * Other formats (or the 1MP option) are re-encoded to PNG first.
+ */
+export const embedImageMetadata = async (
+  file: File,
+  content: EmbedContent,
+  profile: EmbedProfile = 'novelai',
+  options: EmbedOptions = {}
+): Promise<Blob> => {
+  const source = options.resizeTo1MP ? await processImage(file) : file;
+  const data = new Uint8Array(await source.arrayBuffer());
+
+  if (PNG_SIGNATURE.every((byte, i) => data[i] === byte)) {
+    return new Blob([injectPngChunks(data, profile, content)], { type: 'image/png' });
   }
 
-  return new Blob([resultBuffer], { type: 'image/png' });
+  const isJpeg = data[0] === 0xff && data[1] === 0xd8;
+  const isWebp = readAscii(data, 0, 4) === 'RIFF' && readAscii(data, 8, 4) === 'WEBP';
+  if (isJpeg || isWebp) {
+    const { width, height } = await getImageSize(source);
+    const exif = buildExifForProfile(profile, content, width, height);
+    const xmp = profile === 'xmp' ? buildXmpPacket(content) : null;
+    return isJpeg
+      ? new Blob([injectJpegSegments(data, exif, xmp)], { type: 'image/jpeg' })
+      : new Blob([injectWebpChunks(data, exif, xmp)], { type: 'image/webp' });
+  }
+
+  // GIF, AVIF, ...: no metadata support here, convert to PNG
+  const pngBlob = await processImage(file);
+  return new Blob([injectPngChunks(new Uint8Array(await pngBlob.arrayBuffer()), profile, content)], { type: 'image/png' });
 };
 
 const processImage = (file: File): Promise<Blob> => {
@@ -129,8 +544,8 @@ const processImage = (file: File): Promise<Blob> => {
       const targetPixels = 1024 * 1024;
       const currentPixels = width * height;
       
-      // Scale to match ~1MP density
-      const scale = Math.sqrt(targetPixels / currentPixels);
+      // Scale down to ~1MP density; smaller images keep their size
+      const scale = Math.min(1, Math.sqrt(targetPixels / currentPixels));
       width = Math.round(width * scale);
       height = Math.round(height * scale);
 
@@ -0,0 +1,28 @@
+import { BackendProvider, GeminiBackendConfig } from '../../types';
+import { generateTagsGemini, generateCaptionGemini, checkGeminiHealth } from '../geminiService';
+
+export const geminiProvider: BackendProvider<GeminiBackendConfig> = {
+  id: 'gemini',
+  labelKey: 'settings.backend.gemini',
+  defaultConfig: {
+    geminiApiKey: ''
+  },
+  getCapabilities: () => ({
+    caption: true,
+    describesWhileTagging: false,
+    streaming: false,
+    listModels: false,
+    verifiesTags: false
+  }),
+  validateConfig: (config) => {
+    if (!config.geminiApiKey || config.geminiApiKey.trim() === '') return 'errors.geminiKeyRequired';
+    return null;
+  },
+  getModelLabel: () => 'Gemini 3.0 Pro',
+  getCacheFingerprint: () => ({}),
+  generateTags: (base64Image, mimeType, config, _settings, language, onProgress, options) =>
+    generateTagsGemini(base64Image, mimeType, config, language, onProgress, options.signal),
+  generateCaption: (base64Image, mimeType, config, _existingTags, language, options) =>
+    generateCaptionGemini(base64Image, mimeType, config, language, options),
+  healthCheck: checkGeminiHealth
+};
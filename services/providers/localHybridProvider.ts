@@ -0,0 +1,56 @@
+import { BackendProvider, LocalHybridBackendConfig } from '../../types';
+import {
+  generateTagsHybrid,
+  generateCaptionWithVlm,
+  createOllamaClient,
+  fetchOllamaModels,
+  checkLocalHybridHealth,
+  getTaggerCacheFingerprint
+} from '../geminiService';
+import i18n from '../../i18n/config';
+
+// Local tagger for the technical tags, Ollama for verification and the natural description
+export const localHybridProvider: BackendProvider<LocalHybridBackendConfig> = {
+  id: 'local_hybrid',
+  labelKey: 'settings.backend.eva',
+  badge: 'EVA',
+  defaultConfig: {
+    ollamaEndpoint: 'https://ollama.gpu.garden',
+    ollamaModel: 'qwen3-vl:30b',
+    taggerEndpoint: 'https://localtagger.gpu.garden/interrogate',
+    taggerName: 'EVA',
+    extraTaggers: [],
+    fusionMethod: 'mean',
+    enableNaturalLanguage: true
+  },
+  getCapabilities: (config) => ({
+    caption: true,
+    describesWhileTagging: config.enableNaturalLanguage,
+    streaming: true,
+    listModels: true,
+    verifiesTags: true
+  }),
+  validateConfig: (config) => {
+    if (!config.ollamaEndpoint || config.ollamaEndpoint.trim() === '') return 'errors.ollamaRequired';
+    if (!config.taggerEndpoint || config.taggerEndpoint.trim() === '') return 'errors.taggerRequired';
+    return null;
+  },
+  getModelLabel: (config) => config.ollamaModel?.trim() || null,
+  getCacheFingerprint: (config) => ({
+    ollamaEndpoint: config.ollamaEndpoint,
+    ollamaModel: config.ollamaModel,
+    enableNaturalLanguage: config.enableNaturalLanguage,
+    ...getTaggerCacheFingerprint(config)
+  }),
+  getTroubleshootingHints: (config) => [
+    i18n.t('results.troubleshootOllama', { endpoint: config.ollamaEndpoint }),
+    i18n.t('results.troubleshootTagger', { endpoint: config.taggerEndpoint }),
+    i18n.t('results.troubleshootCors')
+  ],
+  generateTags: (base64Image, _mimeType, config, settings, language, onProgress, options) =>
+    generateTagsHybrid(base64Image, config, createOllamaClient(config), settings, language, onProgress, options),
+  generateCaption: (base64Image, _mimeType, config, existingTags, language, options) =>
+    generateCaptionWithVlm(base64Image, createOllamaClient(config), existingTags, language, options),
+  listModels: (config) => fetchOllamaModels(config.ollamaEndpoint),
+  healthCheck: checkLocalHybridHealth
+};
@@ -0,0 +1,36 @@
+import { BackendProvider, OnnxBackendConfig } from '../../types';
+import { generateTagsOnnx, checkOnnxHealth, getOnnxModelLabel, getOnnxSourceKey, hasOnnxModelSource, hasOnnxTagsSource } from '../onnxTagger';
+import i18n from '../../i18n/config';
+
+// WD-style tagger run with ONNX Runtime Web; no server needed once the model is cached
+export const onnxBrowserProvider: BackendProvider<OnnxBackendConfig> = {
+  id: 'onnx_browser',
+  labelKey: 'settings.backend.onnx',
+  badge: 'ONNX',
+  // The ViT model (~380 MB) is the quickest on CPU; EVA02 and SwinV2 exports load the same way
+  defaultConfig: {
+    onnxModelUrl: 'https://huggingface.co/SmilingWolf/wd-vit-tagger-v3/resolve/main/model.onnx',
+    onnxTagsUrl: 'https://huggingface.co/SmilingWolf/wd-vit-tagger-v3/resolve/main/selected_tags.csv'
+  },
+  getCapabilities: () => ({
+    caption: false,
+    describesWhileTagging: false,
+    streaming: false,
+    listModels: false,
+    verifiesTags: false
+  }),
+  validateConfig: (config) => {
+    if (!hasOnnxModelSource(config)) return 'errors.onnxModelRequired';
+    if (!hasOnnxTagsSource(config)) return 'errors.onnxTagsRequired';
+    return null;
+  },
+  getModelLabel: getOnnxModelLabel,
+  // File names alone can't tell two local model.onnx files apart
+  getCacheFingerprint: (config) => ({ source: getOnnxSourceKey(config) }),
+  getTroubleshootingHints: () => [
+    i18n.t('results.troubleshootOnnx')
+  ],
+  generateTags: (base64Image, mimeType, config, settings, _language, onProgress, options) =>
+    generateTagsOnnx(base64Image, mimeType, config, settings, onProgress, options),
+  healthCheck: checkOnnxHealth
+};
@@ -0,0 +1,53 @@
+import { BackendProvider, OpenAiBackendConfig } from '../../types';
+import {
+  generateTagsHybrid,
+  generateCaptionWithVlm,
+  createOpenAiClient,
+  fetchOpenAiModels,
+  checkOpenAiHybridHealth,
+  getTaggerCacheFingerprint
+} from '../geminiService';
+import i18n from '../../i18n/config';
+
+// Same pipeline as the local hybrid backend, with an OpenAI-compatible vision server in place of Ollama
+export const openAiHybridProvider: BackendProvider<OpenAiBackendConfig> = {
+  id: 'openai_hybrid',
+  labelKey: 'settings.backend.openaiHybrid',
+  badge: 'EVA',
+  defaultConfig: {
+    openaiEndpoint: 'http://localhost:8080/v1',
+    openaiModel: '',
+    openaiApiKey: ''
+  },
+  getCapabilities: (config) => ({
+    caption: true,
+    describesWhileTagging: config.enableNaturalLanguage,
+    streaming: true,
+    listModels: true,
+    verifiesTags: true
+  }),
+  validateConfig: (config) => {
+    if (!config.openaiEndpoint || config.openaiEndpoint.trim() === '') return 'errors.openaiRequired';
+    if (!config.openaiModel || config.openaiModel.trim() === '') return 'errors.openaiRequired';
+    if (!config.taggerEndpoint || config.taggerEndpoint.trim() === '') return 'errors.taggerRequired';
+    return null;
+  },
+  getModelLabel: (config) => config.openaiModel?.trim() || null,
+  getCacheFingerprint: (config) => ({
+    openaiEndpoint: config.openaiEndpoint,
+    openaiModel: config.openaiModel,
+    enableNaturalLanguage: config.enableNaturalLanguage,
+    ...getTaggerCacheFingerprint(config)
+  }),
+  getTroubleshootingHints: (config) => [
+    i18n.t('results.troubleshootOpenAi', { endpoint: config.openaiEndpoint }),
+    i18n.t('results.troubleshootTagger', { endpoint: config.taggerEndpoint }),
+    i18n.t('results.troubleshootCors')
+  ],
+  generateTags: (base64Image, _mimeType, config, settings, language, onProgress, options) =>
+    generateTagsHybrid(base64Image, config, createOpenAiClient(config), settings, language, onProgress, options),
+  generateCaption: (base64Image, _mimeType, config, existingTags, language, options) =>
+    generateCaptionWithVlm(base64Image, createOpenAiClient(config), existingTags, language, options),
+  listModels: fetchOpenAiModels,
+  healthCheck: checkOpenAiHybridHealth
+};
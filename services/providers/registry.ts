@@ -0,0 +1,123 @@
+import { BackendConfig, BackendProvider, BackendType, GenerateOptions, InterrogationResult, Tag, TaggingSettings } from '../../types';
+import { loadTagDatabase } from '../tagService';
+import { CacheKind, CacheLookup, createCacheLookup, readCache, writeCache } from '../resultCache';
+import i18n from '../../i18n/config';
+import { geminiProvider } from './geminiProvider';
+import { localHybridProvider } from './localHybridProvider';
+import { openAiHybridProvider } from './openAiHybridProvider';
+import { onnxBrowserProvider } from './onnxBrowserProvider';
+
+/**
+ * Every backend the app can talk to. Adding one means adding its id to
+ * BackendType, its config slice to BackendConfig, a provider module here and
+ * a settings panel in components/backends.
+ */
+const PROVIDERS: Record<BackendType, BackendProvider> = {
+  local_hybrid: localHybridProvider,
+  openai_hybrid: openAiHybridProvider,
+  onnx_browser: onnxBrowserProvider,
+  gemini: geminiProvider
+};
+
+// Display order in the backend picker
+export const BACKEND_PROVIDERS: BackendProvider[] = [geminiProvider, localHybridProvider, openAiHybridProvider, onnxBrowserProvider];
+
+export const DEFAULT_PROVIDER_CONFIG = {
+  ...geminiProvider.defaultConfig,
+  ...localHybridProvider.defaultConfig,
+  ...openAiHybridProvider.defaultConfig,
+  ...onnxBrowserProvider.defaultConfig
+};
+
+export const getProvider = (type: BackendType): BackendProvider => {
+  // Unknown ids can come from an older or newer saved config
+  return PROVIDERS[type] ?? localHybridProvider;
+};
+
+// Settings the backends act on; the rest only changes how results are displayed
+const RESULT_SETTINGS: (keyof TaggingSettings)[] = ['scoreFloor', 'triggerPhrase', 'tagRules', 'verification', 'mergePolicy'];
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Looks an image up in the result cache. Returns a null lookup when the cache
+ * is off or unusable (private browsing, no IndexedDB), so callers just skip it.
+ */
+const lookUpCache = async <T>(
+  kind: CacheKind,
+  base64Image: string,
+  config: BackendConfig,
+  context: Record<string, unknown>,
+  bypassCache?: boolean
+): Promise<{ lookup: CacheLookup | null; hit: { value: T; storedAt: number } | null }> => {
+  if (!config.resultCache) return { lookup: null, hit: null };
+
+  const provider = getProvider(config.type);
+
+  try {
+    const lookup = await createCacheLookup(kind, base64Image, {
+      backend: config.type,
+      model: provider.getModelLabel(config),
+      config: provider.getCacheFingerprint(config),
+      ...context
+    });
+    return { lookup, hit: bypassCache ? null : await readCache<T>(lookup) };
+  } catch (error) {
+    console.warn("Result cache unavailable:", error);
+    return { lookup: null, hit: null };
+  }
+};
+
+const storeInCache = (lookup: CacheLookup | null, value: unknown, config: BackendConfig, options: GenerateOptions) => {
+  // A stopped generation is a partial result, not worth reusing
+  if (!lookup || options.stopSignal?.aborted) return;
+  writeCache(lookup, value, config.resultCacheMaxMb * BYTES_PER_MB)
+    .catch(error => console.warn("Failed to cache result:", error));
+};
+
+export const generateTags = async (
+  base64Image: string,
+  mimeType: string,
+  config: BackendConfig,
+  settings?: TaggingSettings,
+  language: string = 'en',
+  onProgress?: (status: string, progress: number) => void,
+  options: GenerateOptions = {}
+): Promise<InterrogationResult> => {
+  // Ensure tag database is loaded before processing
+  await loadTagDatabase();
+
+  const resultSettings = settings && Object.fromEntries(RESULT_SETTINGS.map(key => [key, settings[key]]));
+  const { lookup, hit } = await lookUpCache<InterrogationResult>('tags', base64Image, config, { language, settings: resultSettings }, options.bypassCache);
+  if (hit) {
+    onProgress?.(i18n.t('status.cacheHit'), 100);
+    return { ...hit.value, cachedAt: hit.storedAt };
+  }
+
+  const result = await getProvider(config.type).generateTags(base64Image, mimeType, config, settings, language, onProgress, options);
+  // A degraded result would keep being served after the failed backend recovers
+  if (!result.failedSources?.length && !result.verificationSkipped) storeInCache(lookup, result, config, options);
+  return result;
+};
+
+export const generateCaption = async (
+  base64Image: string,
+  mimeType: string,
+  config: BackendConfig,
+  existingTags?: Tag[],
+  language: string = 'en',
+  options: GenerateOptions = {}
+): Promise<string> => {
+  const provider = getProvider(config.type);
+  if (!provider.generateCaption) {
+    throw new Error(`The ${config.type} backend cannot write descriptions.`);
+  }
+
+  const tagNames = existingTags?.map(tag => tag.name).sort() ?? [];
+  const { lookup, hit } = await lookUpCache<string>('caption', base64Image, config, { language, tags: tagNames }, options.bypassCache);
+  if (hit) return hit.value;
+
+  const caption = await provider.generateCaption(base64Image, mimeType, config, existingTags, language, options);
+  if (caption.trim()) storeInCache(lookup, caption, config, options);
+  return caption;
+};
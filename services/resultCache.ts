@@ -0,0 +1,103 @@
+import { RESULT_CACHE_STORE, withStore } from './db';
+import { hashBase64, hashString } from './hash';
+
+// Bump when prompts or result post-processing change, so older results are not reused
+const CACHE_VERSION = 1;
+
+export type CacheKind = 'tags' | 'caption';
+
+interface CacheRecord<T> {
+  key: string; // `${imageHash}:${kind}`, so each image keeps one result per kind
+  fingerprint: string; // Hash of the backend, model and settings that produced the value
+  value: T;
+  size: number; // Approximate bytes, for eviction
+  storedAt: number;
+  lastUsed: number;
+}
+
+export interface CacheLookup {
+  key: string;
+  fingerprint: string;
+}
+
+export interface CacheUsage {
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Builds the cache address of an image. `context` is everything besides the
+ * image that the result depends on; any change to it is a cache miss.
+ */
+export const createCacheLookup = async (kind: CacheKind, base64Image: string, context: unknown): Promise<CacheLookup> => {
+  const [imageHash, fingerprint] = await Promise.all([
+    hashBase64(base64Image),
+    hashString(JSON.stringify({ version: CACHE_VERSION, context }))
+  ]);
+  return { key: `${imageHash}:${kind}`, fingerprint };
+};
+
+/**
+ * Returns the cached value, or null on a miss. A result made with another
+ * model or settings is dropped rather than kept around.
+ */
+export const readCache = async <T>(lookup: CacheLookup): Promise<{ value: T; storedAt: number } | null> => {
+  const record = await withStore<CacheRecord<T> | undefined>(RESULT_CACHE_STORE, 'readwrite', store => {
+    const request = store.get(lookup.key);
+    request.onsuccess = () => {
+      const found = request.result as CacheRecord<T> | undefined;
+      if (!found) return;
+      if (found.fingerprint === lookup.fingerprint) {
+        store.put({ ...found, lastUsed: Date.now() });
+      } else {
+        store.delete(lookup.key);
+      }
+    };
+    return request;
+  });
+
+  if (!record || record.fingerprint !== lookup.fingerprint) return null;
+  return { value: record.value, storedAt: record.storedAt };
+};
+
+/**
+ * Stores a value and evicts the least recently used records until the cache
+ * fits in `maxBytes` again.
+ */
+export const writeCache = async <T>(lookup: CacheLookup, value: T, maxBytes: number): Promise<void> => {
+  const size = JSON.stringify(value).length;
+  if (size > maxBytes) return;
+
+  const now = Date.now();
+  const record: CacheRecord<T> = { ...lookup, value, size, storedAt: now, lastUsed: now };
+
+  await withStore(RESULT_CACHE_STORE, 'readwrite', store => {
+    store.put(record);
+    // Newest first: keep records while they fit, delete everything after
+    let total = 0;
+    store.index('lastUsed').openCursor(null, 'prev').onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      total += (cursor.value as CacheRecord<unknown>).size;
+      if (total > maxBytes) cursor.delete();
+      cursor.continue();
+    };
+  });
+};
+
+export const getCacheUsage = async (): Promise<CacheUsage> => {
+  const usage: CacheUsage = { entries: 0, bytes: 0 };
+  await withStore(RESULT_CACHE_STORE, 'readonly', store => {
+    store.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      usage.entries++;
+      usage.bytes += (cursor.value as CacheRecord<unknown>).size;
+      cursor.continue();
+    };
+  });
+  return usage;
+};
+
+export const clearResultCache = (): Promise<void> =>
+  withStore(RESULT_CACHE_STORE, 'readwrite', store => { store.clear(); });
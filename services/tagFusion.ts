@@ -0,0 +1,86 @@
+import { FusionMethod, Tag } from '../types';
+
+export interface TaggerRun {
+  name: string;
+  weight: number;
+  tags: Tag[];
+}
+
+interface FusedEntry {
+  tag: Tag;
+  // Score per run index; taggers that did not report the tag are absent
+  scores: Map<number, number>;
+}
+
+const fuseScore = (entry: FusedEntry, runs: TaggerRun[], method: FusionMethod): number | null => {
+  const reported = Array.from(entry.scores.values());
+
+  switch (method) {
+    case 'max':
+      return Math.max(...reported);
+    case 'weighted': {
+      // Missing tags count as 0, so a tag only one light-weight model saw sinks
+      const totalWeight = runs.reduce((sum, run) => sum + Math.max(0, run.weight), 0);
+      if (totalWeight === 0) return null;
+      let weighted = 0;
+      entry.scores.forEach((score, index) => {
+        weighted += score * Math.max(0, runs[index].weight);
+      });
+      return weighted / totalWeight;
+    }
+    case 'vote':
+      // Strict majority of the taggers that answered; the score is the voters' mean
+      if (reported.length * 2 <= runs.length) return null;
+      return reported.reduce((sum, score) => sum + score, 0) / reported.length;
+    case 'mean':
+    default:
+      return reported.reduce((sum, score) => sum + score, 0) / runs.length;
+  }
+};
+
+/**
+ * Combines the tag lists of several taggers into one, keeping each tagger's
+ * score on the tag for provenance. Taggers only return tags above their own
+ * threshold, so a tag a model did not report counts as a score of 0.
+ */
+export const fuseTaggerResults = (runs: TaggerRun[], method: FusionMethod): Tag[] => {
+  if (runs.length === 0) return [];
+  // A single tagger keeps its own scores untouched
+  if (runs.length === 1) return runs[0].tags;
+
+  const entries = new Map<string, FusedEntry>();
+  runs.forEach((run, index) => {
+    run.tags.forEach(tag => {
+      const entry = entries.get(tag.name);
+      if (entry) {
+        entry.scores.set(index, Math.max(entry.scores.get(index) ?? 0, tag.score));
+      } else {
+        entries.set(tag.name, { tag, scores: new Map([[index, tag.score]]) });
+      }
+    });
+  });
+
+  const fused: Tag[] = [];
+  let rating: Tag | null = null;
+
+  entries.forEach(entry => {
+    const score = fuseScore(entry, runs, method);
+    if (score === null || score <= 0) return;
+
+    const tag: Tag = {
+      ...entry.tag,
+      score,
+      taggers: Array.from(entry.scores.entries()).map(([index, tagScore]) => ({ tagger: runs[index].name, score: tagScore }))
+    };
+
+    if (tag.category === 'rating') {
+      // Taggers can disagree on the rating; keep a single one
+      if (!rating || tag.score > rating.score) rating = tag;
+    } else {
+      fused.push(tag);
+    }
+  });
+
+  if (rating) fused.push(rating);
+  return fused.sort((a, b) => b.score - a.score);
+};
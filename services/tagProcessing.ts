@@ -0,0 +1,181 @@
+import { Tag, TagCategory, TaggingSettings, TagOrderGroup, TagRule } from '../types';
+import { getPostCount, pruneImpliedTags } from './tagService';
+
+// Taggers are asked for everything above this; the category thresholds filter locally
+export const DEFAULT_SCORE_FLOOR = 0.1;
+
+// Taggers read lighting as skin color; these used to be a hard-coded filter
+export const DEFAULT_TAG_RULES: TagRule[] = [
+  { pattern: 'blue_skin', minScore: 0.85 },
+  { pattern: 'colored_skin', minScore: 0.85 }
+];
+
+// Subject count first, then who and where from, as most prompt guides write it
+export const DEFAULT_CATEGORY_ORDER: TagOrderGroup[] = ['rating', 'count', 'character', 'copyright', 'artist', 'general', 'meta'];
+
+// Category order of a Danbooru post's tag list; ratings are not tags there and go last
+const DANBOORU_CATEGORY_ORDER: TagCategory[] = ['artist', 'copyright', 'character', 'general', 'meta', 'rating'];
+
+const COUNT_TAG_PATTERN = /^(\d+\+?(girl|boy|other)s?|solo|no_humans|multiple_(girls|boys|others))$/;
+
+const rulePatternCache = new Map<string, RegExp>();
+
+const matchesRulePattern = (name: string, pattern: string): boolean => {
+  const key = pattern.trim().toLowerCase().replace(/ /g, '_');
+  if (!key.includes('*')) return name === key;
+
+  let regex = rulePatternCache.get(key);
+  if (!regex) {
+    const escaped = key.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    regex = new RegExp(`^${escaped}$`);
+    rulePatternCache.set(key, regex);
+  }
+  return regex.test(name);
+};
+
+/**
+ * Drops tags that a rule marks as a likely false positive at their score.
+ * Manual tags are the user's own call and are never dropped.
+ */
+export const applyTagRules = <T extends Tag>(tags: T[], rules: TagRule[]): T[] => {
+  const activeRules = rules.filter(rule => rule.pattern.trim() !== '');
+  if (activeRules.length === 0) return tags;
+
+  return tags.filter(tag => {
+    if (tag.source === 'manual') return true;
+    return !activeRules.some(rule =>
+      matchesRulePattern(tag.name, rule.pattern) && (rule.minScore >= 1 || tag.score < rule.minScore)
+    );
+  });
+};
+
+const getOrderGroup = (tag: Tag): TagOrderGroup =>
+  tag.category === 'general' && COUNT_TAG_PATTERN.test(tag.name) ? 'count' : tag.category;
+
+// Stable, so tags keep their ranking within a group. Count tags sit with general when 'count' is not listed.
+const sortByGroup = (tags: Tag[], order: TagOrderGroup[]): Tag[] => {
+  const indexOf = (tag: Tag) => {
+    const group = getOrderGroup(tag);
+    const index = order.indexOf(group === 'count' && !order.includes('count') ? 'general' : group);
+    return index === -1 ? order.length : index;
+  };
+  return [...tags].sort((a, b) => indexOf(a) - indexOf(b));
+};
+
+// mulberry32 seeded with a string hash, so a tag set always shuffles the same way
+const createSeededRandom = (key: string): (() => number) => {
+  let state = 1779033703 ^ key.length;
+  for (let i = 0; i < key.length; i++) {
+    state = Math.imul(state ^ key.charCodeAt(i), 3432918353);
+    state = (state << 13) | (state >>> 19);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffleTags = (tags: Tag[], random: () => number): Tag[] => {
+  const shuffled = [...tags];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * Arranges already selected tags by the configured tag order. Shuffles are
+ * seeded by the tag names, so the copy, embed and export of an image agree.
+ * The trigger phrase is added later and always stays in front.
+ */
+export const orderTags = (tags: Tag[], settings: TaggingSettings): Tag[] => {
+  const categoryOrder = settings.categoryOrder ?? DEFAULT_CATEGORY_ORDER;
+  const shuffleKey = `${settings.shuffleSeed ?? 0}:${tags.map(tag => tag.name).sort().join(',')}`;
+
+  switch (settings.tagOrder) {
+    case 'category':
+      return sortByGroup(tags, categoryOrder);
+    case 'keepFirst': {
+      // kohya keep_tokens: the leading tags stay put while the rest is shuffled
+      const grouped = sortByGroup(tags, categoryOrder);
+      const keep = Math.max(0, Math.floor(settings.keepTokens ?? 0));
+      return [...grouped.slice(0, keep), ...shuffleTags(grouped.slice(keep), createSeededRandom(shuffleKey))];
+    }
+    case 'alphabetical':
+      return [...tags].sort((a, b) => a.name.localeCompare(b.name));
+    case 'danbooru':
+      return sortByGroup([...tags].sort((a, b) => a.name.localeCompare(b.name)), DANBOORU_CATEGORY_ORDER);
+    case 'shuffle':
+      return shuffleTags(tags, createSeededRandom(shuffleKey));
+    case 'ranked':
+    default:
+      return tags;
+  }
+};
+
+/**
+ * Applies the user's output settings to raw interrogation tags:
+ * thresholds, rarity filter, implication pruning, sorting, Top K / Max Tags and tag order.
+ * Shared by the Results view and every export path so they always agree.
+ */
+export const processTags = (rawTags: Tag[], settings: TaggingSettings): Tag[] => {
+  // Manually added / renamed tags always survive filtering
+  const manualTags = rawTags.filter(tag => tag.source === 'manual');
+
+  // 1. Filter by Category Thresholds
+  let tags = rawTags.filter(tag => {
+    if (tag.source === 'manual') return false;
+    const threshold = settings.thresholds[tag.category] || 0.5;
+    return tag.score >= threshold;
+  });
+
+  // Rules can change after interrogation, so they are applied again on display
+  tags = applyTagRules(tags, settings.tagRules ?? DEFAULT_TAG_RULES);
+
+  // 2. Hide rare tags (likely hallucinations). Ratings are not in the tag database.
+  if (settings.minPostCount > 0) {
+    tags = tags.filter(tag => tag.category === 'rating' || (getPostCount(tag.name) ?? 0) >= settings.minPostCount);
+  }
+
+  // 3. Drop tags implied by a more specific one (manual tags can imply, but are never dropped)
+  if (settings.pruneImplied) {
+    tags = pruneImpliedTags([...manualTags, ...tags]).filter(tag => tag.source !== 'manual');
+  }
+
+  // 4. Sort by Score or Popularity (Descending)
+  if (settings.sortBy === 'popularity') {
+    tags.sort((a, b) => (getPostCount(b.name) ?? 0) - (getPostCount(a.name) ?? 0) || b.score - a.score);
+  } else {
+    tags.sort((a, b) => b.score - a.score);
+  }
+
+  // 5. Apply Top K, capped by Max Tags when set
+  const limit = settings.maxTags > 0 ? Math.min(settings.topK, settings.maxTags) : settings.topK;
+  tags = [...manualTags, ...tags.slice(0, limit)];
+
+  // 6. Arrange by the configured tag order
+  return orderTags(tags, settings);
+};
+
+export const formatTagName = (name: string, settings: TaggingSettings): string => {
+  return settings.removeUnderscores ? name.replace(/_/g, ' ') : name;
+};
+
+export const formatTagString = (tags: Tag[], settings: TaggingSettings): string => {
+  return tags.map(tag => formatTagName(tag.name, settings)).join(', ');
+};
+
+// Prepends the trigger phrase (if any) to a caption, without duplicating it
+export const withTriggerPhrase = (caption: string, settings: TaggingSettings): string => {
+  const trigger = settings.triggerPhrase?.trim();
+  if (!trigger) return caption;
+
+  // Compare whole tokens: a "cat" trigger is not already present in "cat_ears, ..."
+  const triggerTokens = trigger.split(',').map(token => token.trim());
+  const captionTokens = caption.split(',').map(token => token.trim());
+  if (triggerTokens.every((token, i) => captionTokens[i] === token)) return caption;
+  return caption ? `${trigger}, ${caption}` : trigger;
+};
@@ -1,16 +1,20 @@
-import { TagCategory } from '../types';
+import { Tag, TagCategory, TagSuggestion } from '../types';
 
 interface TagData {
-    tagId: number;
-    name: string;
-    category: number;
-    count: number;
+    category: TagCategory;
+    count: number; // Danbooru post count
 }
 
-let tagDatabase: Map<string, TagCategory> = new Map();
+let tagDatabase: Map<string, TagData> = new Map();
+// Alias -> canonical Danbooru tag (e.g. 'longhair' -> 'long_hair')
+let aliasIndex: Map<string, string> = new Map();
+// Antecedent -> direct consequents (e.g. 'very_long_hair' -> ['long_hair'])
+let implicationIndex: Map<string, string[]> = new Map();
+let maxPostCount = 0;
 let isLoaded = false;
 
-const CATEGORY_MAPPING: Record<number, TagCategory> = {
+// Danbooru category ids, also used by the selected_tags.csv of WD taggers
+export const CATEGORY_MAPPING: Record<number, TagCategory> = {
     0: 'general',
     1: 'artist',
     3: 'copyright',
@@ -19,9 +23,73 @@ const CATEGORY_MAPPING: Record<number, TagCategory> = {
     9: 'rating'
 };
 
+// Minimal CSV field splitter: handles quoted fields ("a,b") and escaped quotes ("")
+export const parseCsvLine = (line: string): string[] => {
+    const fields: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (inQuotes) {
+            if (char === '"') {
+                if (line[i + 1] === '"') {
+                    current += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            fields.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    fields.push(current);
+    return fields;
+};
+
+const loadTagImplications = async (): Promise<void> => {
+    try {
+        const response = await fetch('/danbooru_tag_implications.csv');
+        if (!response.ok) {
+            throw new Error(`Failed to load tag implications: ${response.statusText}`);
+        }
+
+        const text = await response.text();
+
+        // CSV format: antecedent,consequent (no header)
+        for (const rawLine of text.split('\n')) {
+            const line = rawLine.trim();
+            if (!line) continue;
+
+            const [antecedent, consequent] = parseCsvLine(line);
+            if (!antecedent || !consequent) continue;
+
+            const consequents = implicationIndex.get(antecedent) || [];
+            consequents.push(consequent);
+            implicationIndex.set(antecedent, consequents);
+        }
+
+        console.log(`[TagService] Loaded implications for ${implicationIndex.size} tags.`);
+    } catch (error) {
+        // Pruning simply becomes a no-op without the implication data
+        console.error("[TagService] Error loading tag implications:", error);
+    }
+};
+
 export const loadTagDatabase = async (): Promise<void> => {
     if (isLoaded) return;
 
+    // Implications are small; fetch them alongside the main CSV
+    const implicationsPromise = loadTagImplications();
+
     try {
         const response = await fetch('/danbooru_tags.csv');
         if (!response.ok) {
@@ -37,28 +105,97 @@ export const loadTagDatabase = async (): Promise<void> => {
             if (!line) continue;
 
             // CSV format: name,category,count,aliases
-            const parts = line.split(',');
+            // The aliases column is a quoted, comma-separated list (e.g. "/lh,longhair")
+            const parts = parseCsvLine(line);
             if (parts.length >= 2) {
                 const name = parts[0];
                 const categoryId = parseInt(parts[1], 10);
                 const category = CATEGORY_MAPPING[categoryId] || 'general';
+                const count = parseInt(parts[2], 10) || 0;
+
+                tagDatabase.set(name, { category, count });
+                if (count > maxPostCount) maxPostCount = count;
 
-                tagDatabase.set(name, category);
+                if (parts[3]) {
+                    for (const alias of parts[3].split(',')) {
+                        const key = alias.trim();
+                        // Never let an alias shadow another real tag or an earlier (more popular) mapping
+                        if (key && key !== name && !aliasIndex.has(key)) {
+                            aliasIndex.set(key, name);
+                        }
+                    }
+                }
             }
         }
 
+        // Real tags always win over aliases with the same spelling
+        for (const name of tagDatabase.keys()) {
+            aliasIndex.delete(name);
+        }
+
+        await implicationsPromise;
+
         isLoaded = true;
-        console.log(`[TagService] Loaded ${tagDatabase.size} tags.`);
+        console.log(`[TagService] Loaded ${tagDatabase.size} tags and ${aliasIndex.size} aliases.`);
     } catch (error) {
         console.error("[TagService] Error loading tag database:", error);
         // Fallback or retry logic could go here, but for now we just log.
     }
 };
 
+export const normalizeTagName = (tagName: string): string => {
+    // Ensure tags match Danbooru format (lowercase, underscores) for CSV lookup
+    return tagName.toLowerCase().trim().replace(/ /g, '_');
+};
+
+export const resolveAlias = (tagName: string): string | undefined => {
+    return aliasIndex.get(tagName);
+};
+
+/**
+ * Rewrites a tag name to its canonical Danbooru spelling.
+ * Returns the canonical name and, if an alias was rewritten, the original spelling.
+ */
+export const canonicalizeTagName = (tagName: string): { name: string; aliasOf?: string } => {
+    const normalized = normalizeTagName(tagName);
+    if (tagDatabase.has(normalized)) {
+        return { name: normalized };
+    }
+
+    const canonical = aliasIndex.get(normalized);
+    if (canonical) {
+        return { name: canonical, aliasOf: normalized };
+    }
+
+    return { name: normalized };
+};
+
+/**
+ * Canonicalizes a list of tags from any source (tagger, Ollama, Gemini).
+ * Aliased tags are renamed and re-categorized; duplicates produced by the rewrite keep the highest score.
+ */
+export const canonicalizeTags = (tags: Tag[]): Tag[] => {
+    const result = new Map<string, Tag>();
+
+    for (const tag of tags) {
+        const { name, aliasOf } = canonicalizeTagName(tag.name);
+        const canonicalTag: Tag = aliasOf
+            ? { ...tag, name, aliasOf, category: getCategory(name) }
+            : { ...tag, name };
+
+        const existing = result.get(name);
+        if (!existing || canonicalTag.score > existing.score) {
+            result.set(name, canonicalTag);
+        }
+    }
+
+    return Array.from(result.values());
+};
+
 export const getCategory = (tagName: string): TagCategory => {
     // 1. Try exact match from CSV
     if (tagDatabase.has(tagName)) {
-        return tagDatabase.get(tagName)!;
+        return tagDatabase.get(tagName)!.category;
     }
 
     // 2. Fallback heuristics for tags not in CSV (or if CSV failed to load)
@@ -76,9 +213,101 @@ export const getCategory = (tagName: string): TagCategory => {
 };
 
 export const isTagInCategory = (tagName: string, category: TagCategory): boolean => {
-    return tagDatabase.get(tagName) === category;
+    return tagDatabase.get(tagName)?.category === category;
 };
 
 export const isValidTag = (tagName: string): boolean => {
     return tagDatabase.has(tagName);
 };
+
+export const getPostCount = (tagName: string): number | undefined => {
+    return tagDatabase.get(tagName)?.count;
+};
+
+/**
+ * Maps a tag's post count onto a 0.5 - 1.0 confidence multiplier (log scale).
+ * Tags missing from the database get 0.4: they are usually invented by the VLM.
+ */
+export const getPopularityWeight = (tagName: string): number => {
+    const count = getPostCount(tagName);
+    if (!count || maxPostCount <= 1) return 0.4;
+
+    const ratio = Math.log10(count) / Math.log10(maxPostCount);
+    return 0.5 + 0.5 * Math.min(1, Math.max(0, ratio));
+};
+
+export const formatPostCount = (count: number): string => {
+    if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+    if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+    return count.toString();
+};
+
+/**
+ * Autocomplete lookup over the tag database and alias index, ranked by post count.
+ * Prefix matches rank above matches on a later word (e.g. 'hair' -> 'long_hair').
+ */
+export const searchTags = (query: string, limit: number = 10): TagSuggestion[] => {
+    const normalized = normalizeTagName(query);
+    if (!normalized) return [];
+
+    const prefixMatches: TagSuggestion[] = [];
+    const wordMatches: TagSuggestion[] = [];
+    const seen = new Set<string>();
+
+    for (const [name, data] of tagDatabase) {
+        if (name.startsWith(normalized)) {
+            prefixMatches.push({ name, category: data.category, count: data.count });
+            seen.add(name);
+        } else if (name.includes(`_${normalized}`)) {
+            wordMatches.push({ name, category: data.category, count: data.count });
+            seen.add(name);
+        }
+    }
+
+    for (const [alias, name] of aliasIndex) {
+        if (seen.has(name) || !alias.startsWith(normalized)) continue;
+        const data = tagDatabase.get(name);
+        if (!data) continue;
+        prefixMatches.push({ name, category: data.category, count: data.count, matchedAlias: alias });
+        seen.add(name);
+    }
+
+    // Exact hits first, then by popularity
+    const byCount = (a: TagSuggestion, b: TagSuggestion) =>
+        Number(b.name === normalized) - Number(a.name === normalized) || b.count - a.count;
+    return [...prefixMatches.sort(byCount), ...wordMatches.sort(byCount)].slice(0, limit);
+};
+
+/**
+ * All tags implied by `tagName`, following implication chains
+ * (e.g. 'absurdly_long_hair' -> 'very_long_hair' -> 'long_hair').
+ */
+export const getImpliedTags = (tagName: string): Set<string> => {
+    const implied = new Set<string>();
+    const queue = [...(implicationIndex.get(tagName) || [])];
+
+    while (queue.length > 0) {
+        const next = queue.shift()!;
+        if (implied.has(next) || next === tagName) continue;
+        implied.add(next);
+        queue.push(...(implicationIndex.get(next) || []));
+    }
+
+    return implied;
+};
+
+/**
+ * Drops tags that are implied by a more specific tag in the same list
+ * (e.g. 'long_hair' when 'very_long_hair' is present). Manually added tags are never pruned.
+ */
+export const pruneImpliedTags = <T extends { name: string; source?: Tag['source'] }>(tags: T[]): T[] => {
+    const redundant = new Set<string>();
+    for (const tag of tags) {
+        for (const implied of getImpliedTags(tag.name)) {
+            redundant.add(implied);
+        }
+    }
+
+    if (redundant.size === 0) return tags;
+    return tags.filter(tag => tag.source === 'manual' || !redundant.has(tag.name));
+};
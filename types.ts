@@ -1,44 +1,251 @@
 export type TagCategory = 'general' | 'character' | 'copyright' | 'artist' | 'meta' | 'rating';
 
-export type BackendType = 'gemini' | 'local_hybrid';
+export type BackendType = 'gemini' | 'local_hybrid' | 'openai_hybrid' | 'onnx_browser';
 
 export interface Tag {
   name: string;
   score: number;
   category: TagCategory;
-  source?: 'local' | 'ollama' | 'both';
+  source?: 'local' | 'ollama' | 'both' | 'manual';
+  aliasOf?: string; // Original spelling when the name was rewritten from a Danbooru alias
+  taggers?: TaggerScore[]; // Per-tagger scores when several taggers were fused
+  disputed?: boolean; // Tagger tag the vision model did not confirm (demoted by the merge policy)
+}
+
+export interface TaggerScore {
+  tagger: string; // TaggerEndpoint name
+  score: number;
+}
+
+export interface TagSuggestion {
+  name: string;
+  category: TagCategory;
+  count: number;
+  matchedAlias?: string; // Set when the query matched an alias rather than the tag itself
 }
 
 export interface InterrogationResult {
   naturalDescription?: string;
   tags: Tag[];
+  taggers?: string[]; // Names of the taggers whose results were fused, when more than one ran
+  cachedAt?: number; // Set when served from the result cache: when the result was first produced
+  scoreFloor?: number; // Tagger scores below this were never fetched, so lower thresholds show nothing new
+  failedSources?: string[]; // Taggers or vision model that errored; the result is degraded when set
+  verificationSkipped?: boolean; // The vision model's answer to the borderline-tag check was unreadable
 }
 
-export interface BatchResult {
-  tags: Record<string, number>;
-  tag_string: string;
+export type EmbeddedPromptSource = 'a1111' | 'comfyui' | 'novelai';
+
+// Generation metadata recovered from an image file (PNG text chunks or EXIF UserComment)
+export interface EmbeddedMetadata {
+  source: EmbeddedPromptSource;
+  prompt: string;
+  negativePrompt?: string;
+  parameters: Record<string, string>; // Steps, sampler, seed, ... as found in the file
+  rawText: Record<string, string>; // Every text entry read from the file, by keyword
 }
 
-export interface BackendConfig {
-  type: BackendType;
+export type BatchItemStatus = 'pending' | 'running' | 'retrying' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  file: File;
+  result: InterrogationResult | null; // null until the item is done
+  status: BatchItemStatus;
+  progress: number;
+  statusMessage?: string;
+  attempts: number;
+  error?: string;
+}
 
-  // Gemini Specifics
+// A past interrogation kept in IndexedDB, one per distinct image
+export interface HistoryEntry {
+  hash: string; // SHA-256 of the image bytes
+  fileName: string;
+  thumbnail: string; // Small JPEG data URL
+  result: InterrogationResult;
+  backend: BackendType;
+  model: string | null; // Provider model label at the time; null when none was configured
+  settings: TaggingSettings; // Snapshot, so the output can be reproduced
+  createdAt: number;
+  updatedAt: number; // Bumped by re-runs and edits
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  // Ends Ollama generation early but keeps what was produced so far
+  stopSignal?: AbortSignal;
+  // Receives the natural description as it streams in
+  onDescription?: (partial: string) => void;
+  // Skips the result cache lookup; the fresh result still replaces the cached one
+  bypassCache?: boolean;
+}
+
+// Each backend provider owns a slice of BackendConfig (see services/providers)
+export interface GeminiBackendConfig {
   geminiApiKey: string;
+}
+
+// How scores from several taggers are combined into one
+export type FusionMethod = 'mean' | 'max' | 'weighted' | 'vote';
+
+// An extra tagger queried alongside the main one
+export interface TaggerEndpoint {
+  name: string; // Shown in the per-tag provenance, e.g. 'SwinV2'
+  endpoint: string;
+  weight: number; // Only used by weighted fusion; the main tagger counts as 1
+}
 
-  // Local Hybrid Specifics (Ollama + Local Tagger)
+// Local Hybrid Specifics (Ollama + Local Tagger)
+export interface LocalHybridBackendConfig {
   ollamaEndpoint: string;
   ollamaModel: string; // e.g., 'qwen2.5-vl'
   taggerEndpoint: string; // e.g., 'http://localhost:8000/tag'
+  taggerName: string; // Label of the main tagger in the provenance
+  extraTaggers: TaggerEndpoint[]; // Run in parallel with the main tagger and fused
+  fusionMethod: FusionMethod;
   enableNaturalLanguage: boolean; // Toggle for natural language output
 }
 
+// OpenAI-compatible vision server (llama.cpp, vLLM, LM Studio); reuses the local tagger settings
+export interface OpenAiBackendConfig {
+  openaiEndpoint: string; // e.g., 'http://localhost:8080/v1'
+  openaiModel: string;
+  openaiApiKey: string; // Optional bearer token
+}
+
+// WD-style ONNX tagger run in the browser; files picked from disk override these URLs for the session
+export interface OnnxBackendConfig {
+  onnxModelUrl: string; // model.onnx
+  onnxTagsUrl: string; // selected_tags.csv
+}
+
+export interface BackendConfig extends GeminiBackendConfig, LocalHybridBackendConfig, OpenAiBackendConfig, OnnxBackendConfig {
+  type: BackendType;
+
+  // Batch Orchestration
+  batchConcurrency: number; // Images interrogated in parallel
+  batchMaxRetries: number; // Retries per image before it is marked as failed
+  batchMaxDegradedRetries: number; // Retries per image when a tagger or the vision model failed but others answered
+
+  // Result Cache (IndexedDB)
+  resultCache: boolean; // Reuse results for identical images and settings
+  resultCacheMaxMb: number; // Least recently used results are evicted past this
+}
+
+export interface ProviderCapabilities {
+  caption: boolean; // Can write a natural description on demand
+  describesWhileTagging: boolean; // The tag pass also returns a natural description
+  streaming: boolean; // Descriptions stream in and can be stopped midway
+  listModels: boolean;
+  verifiesTags: boolean; // A vision model can double-check borderline tagger tags
+}
+
+export type ProviderHealth = { ok: true; detail?: string } | { ok: false; error: string };
+
+export interface BackendProvider<C = unknown> {
+  id: BackendType;
+  labelKey: string; // i18n key of the display name
+  badge?: string; // Short label shown next to the results heading
+  defaultConfig: C;
+  getCapabilities: (config: BackendConfig) => ProviderCapabilities;
+  // Returns the i18n key of the first problem, or null when the config is usable
+  validateConfig: (config: BackendConfig) => string | null;
+  getModelLabel: (config: BackendConfig) => string | null;
+  // Every config field that changes the output, for the result cache key; API keys stay out
+  getCacheFingerprint: (config: BackendConfig) => Record<string, unknown>;
+  getTroubleshootingHints?: (config: BackendConfig) => string[];
+  generateTags: (
+    base64Image: string,
+    mimeType: string,
+    config: BackendConfig,
+    settings: TaggingSettings | undefined,
+    language: string,
+    onProgress: ((status: string, progress: number) => void) | undefined,
+    options: GenerateOptions
+  ) => Promise<InterrogationResult>;
+  generateCaption?: (
+    base64Image: string,
+    mimeType: string,
+    config: BackendConfig,
+    existingTags: Tag[] | undefined,
+    language: string,
+    options: GenerateOptions
+  ) => Promise<string>;
+  listModels?: (config: BackendConfig) => Promise<string[]>;
+  healthCheck: (config: BackendConfig) => Promise<ProviderHealth>;
+}
+
+// Props of a provider's settings panel (see components/backends)
+export interface BackendSettingsProps {
+  config: BackendConfig;
+  onChange: (config: BackendConfig) => void;
+  disabled?: boolean;
+}
+
+// Drops a matching tag scored below minScore; a minScore of 1 blocks it outright
+export interface TagRule {
+  pattern: string; // Tag name; '*' matches any characters (e.g. '*_skin')
+  minScore: number;
+}
+
+// Borderline tagger tags are put to the vision model as yes/no questions
+export interface VerificationSettings {
+  enabled: boolean;
+  minScore: number; // Tagger tags scored from minScore up to (not including) maxScore are checked
+  maxScore: number;
+  maxQuestions: number; // Per image; the least confident tags are asked first
+}
+
+// How the hybrid backends combine tagger tags with the vision model's tags
+export interface MergePolicy {
+  includeVlmOnly: boolean; // Keep tags only the vision model found (always done when the tagger returned nothing)
+  vlmOnlyMinScore: number; // Minimum vision-model confidence for those tags
+  popularityWeighting: boolean; // Scale vision-model-only tags by Danbooru popularity (0.4-1.0) before any threshold sees them
+  requireAgreement: TagCategory[]; // Tags in these categories are dropped unless both sources found them (or the vision model never saw them)
+  agreementBoost: number; // Added to the score of tags both sources found
+  disputePenalty: number; // Share of the score (0-1) removed from tagger tags the vision model did not confirm
+}
+
+export type TagOrder = 'ranked' | 'category' | 'keepFirst' | 'alphabetical' | 'danbooru' | 'shuffle';
+
+// Categories plus 'count', the subject count tags (1girl, 2boys, solo, ...) split out of general
+export type TagOrderGroup = TagCategory | 'count';
+
 export interface TaggingSettings {
   thresholds: Record<TagCategory, number>;
   topK: number;
-  maxTags: number; // New: Server-side limit
+  maxTags: number; // Hard cap on tagger tags, applied with Top K (0 = off)
   triggerPhrase: string; // New: Server-side trigger phrase
-  randomize: boolean;
+  scoreFloor: number; // Lowest score requested from taggers; thresholds filter above it on display
   removeUnderscores: boolean;
+  sortBy: 'score' | 'popularity'; // Ranking that Top K keeps from
+  tagOrder: TagOrder; // Arrangement of the kept tags in copies, embeds and exports
+  categoryOrder: TagOrderGroup[]; // Group order for the 'category' and 'keepFirst' orders
+  keepTokens: number; // Tags held in place before the rest is shuffled ('keepFirst')
+  shuffleSeed: number; // Shuffles are repeatable per tag set; bumping this reshuffles
+  minPostCount: number; // Hide tags with fewer Danbooru posts (0 = off)
+  pruneImplied: boolean; // Drop tags implied by a more specific tag (e.g. long_hair when very_long_hair is present)
+  embedProfile: EmbedProfile; // Metadata layout used by the embed download
+  embedResize: boolean; // Re-encode embed downloads as ~1MP PNG instead of keeping the original file
+  mergePolicy: MergePolicy;
+  tagRules: TagRule[]; // User-editable false-positive filter
+  verification: VerificationSettings;
+}
+
+export type DatasetLayout = 'flat' | 'kohya' | 'onetrainer';
+
+export type CaptionContent = 'tags' | 'description' | 'both';
+
+export type MetadataFormat = 'jsonl' | 'csv' | 'huggingface';
+
+// Which generator UI the embedded metadata should look like
+export type EmbedProfile = 'novelai' | 'a1111' | 'comfyui' | 'xmp';
+
+export interface DatasetExportOptions {
+  layout: DatasetLayout;
+  captionContent: CaptionContent;
+  repeats: number; // Folder repeat prefix for kohya-ss (e.g. 10_concept), balancing for OneTrainer
+  conceptName: string;
 }
 
 export enum AppState {
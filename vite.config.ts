@@ -84,6 +84,10 @@ export default defineConfig(({ mode }) => {
       },
     },
     plugins: [react()],
+    optimizeDeps: {
+      // Pre-bundling breaks ONNX Runtime's lookup of its .wasm files next to the module
+      exclude: ['onnxruntime-web']
+    },
     define: {
       'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)